@@ -8,6 +8,7 @@ import { Navigation } from './components/Navigation';
 import { Login } from './pages/Login';
 import { Signup } from './pages/Signup';
 import { Dashboard } from './pages/Dashboard';
+import { Usage } from './pages/Usage';
 
 function Home() {
   return (
@@ -71,6 +72,7 @@ function App() {
           <Route path="/login" element={<Login />} />
           <Route path="/signup" element={<Signup />} />
           <Route path="/dashboard" element={<Dashboard />} />
+          <Route path="/usage" element={<Usage />} />
         </Routes>
       </div>
     </Router>
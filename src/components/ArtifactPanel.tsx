@@ -0,0 +1,147 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { AlertTriangle, AppWindow, Code, Eye, History, Loader2, RefreshCw, X } from 'lucide-react';
+import { CodeBlock } from './CodeBlock';
+import { buildPreviewDocument, type Artifact } from '../lib/artifacts';
+
+export interface ArtifactSelection {
+  artifactId: string;
+  // Null follows the latest version, so revisions show up as they arrive
+  versionIndex: number | null;
+}
+
+interface ArtifactPanelProps {
+  artifacts: Artifact[];
+  selection: ArtifactSelection;
+  onSelect: (selection: ArtifactSelection) => void;
+  onClose: () => void;
+}
+
+export function ArtifactPanel({ artifacts, selection, onSelect, onClose }: ArtifactPanelProps) {
+  const [showCode, setShowCode] = useState(false);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped to reload the preview from scratch
+  const [reloads, setReloads] = useState(0);
+
+  const artifact = artifacts.find(a => a.id === selection.artifactId) ?? artifacts[artifacts.length - 1];
+  const versionIndex = selection.versionIndex ?? artifact.versions.length - 1;
+  const version = artifact.versions[Math.min(versionIndex, artifact.versions.length - 1)];
+
+  const { kind, title } = artifact;
+  const { language, code } = version;
+
+  useEffect(() => {
+    let cancelled = false;
+    buildPreviewDocument(kind, title, language, code)
+      .then(built => {
+        if (cancelled) return;
+        setPreview(built);
+        setError(null);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        setPreview(null);
+        setError(error instanceof Error ? error.message : String(error));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [kind, title, language, code]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, x: 20 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, x: 20 }}
+      transition={{ duration: 0.3 }}
+      className="w-[480px] shrink-0 flex flex-col border-l border-white/10 bg-black/30"
+    >
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-white/10">
+        <AppWindow size={16} className="text-indigo-400 shrink-0" />
+        <select
+          value={artifact.id}
+          onChange={(e) => onSelect({ artifactId: e.target.value, versionIndex: null })}
+          className="flex-1 min-w-0 bg-transparent text-sm text-white focus:outline-none truncate"
+        >
+          {artifacts.map(a => (
+            <option key={a.id} value={a.id} className="bg-gray-900">
+              {a.title} ({a.kind === 'html' ? 'HTML' : 'React'})
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => setShowCode(!showCode)}
+          title={showCode ? 'Show preview' : 'Show code'}
+          className="p-1.5 rounded text-gray-400 hover:text-white hover:bg-white/10 transition"
+        >
+          {showCode ? <Eye size={16} /> : <Code size={16} />}
+        </button>
+        <button
+          onClick={() => setReloads(reloads + 1)}
+          title="Reload preview"
+          className="p-1.5 rounded text-gray-400 hover:text-white hover:bg-white/10 transition"
+        >
+          <RefreshCw size={16} />
+        </button>
+        <button
+          onClick={onClose}
+          title="Close"
+          className="p-1.5 rounded text-gray-400 hover:text-white hover:bg-white/10 transition"
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2 px-4 py-2 border-b border-white/10 text-xs text-gray-400 overflow-x-auto">
+        <History size={12} className="shrink-0" />
+        {artifact.versions.map((v, index) => (
+          <button
+            key={`${v.messageId}-${index}`}
+            onClick={() => onSelect({
+              artifactId: artifact.id,
+              versionIndex: index === artifact.versions.length - 1 ? null : index
+            })}
+            title={new Date(v.createdAt).toLocaleString()}
+            className={`px-2 py-0.5 rounded-full shrink-0 transition ${
+              v === version ? 'bg-indigo-600/30 text-white' : 'hover:bg-white/5 hover:text-white'
+            }`}
+          >
+            v{index + 1}
+          </button>
+        ))}
+        {selection.versionIndex === null && (
+          <span className="ml-auto shrink-0 text-gray-500">Following latest</span>
+        )}
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-auto">
+        {showCode ? (
+          <div className="p-3">
+            <CodeBlock code={version.code} language={version.language} />
+          </div>
+        ) : error ? (
+          <div className="flex items-start gap-2 p-4 text-sm text-red-300">
+            <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+            <span className="whitespace-pre-wrap">{error}</span>
+          </div>
+        ) : preview ? (
+          <iframe
+            key={reloads}
+            title={artifact.title}
+            srcDoc={preview}
+            // Scripts may run, but in a unique origin: no access to the app, its
+            // storage or cookies. The document's CSP blocks all network requests.
+            sandbox="allow-scripts"
+            className="w-full h-full bg-white"
+          />
+        ) : (
+          <div className="flex items-center gap-2 p-4 text-sm text-gray-400">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Preparing preview...
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+}
@@ -1,32 +1,48 @@
-import { PrismLight as SyntaxHighlighter } from 'react-syntax-highlighter';
+// Prism grammars are loaded on demand, the first time a language is shown
+import { PrismAsyncLight as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { oneDark } from 'react-syntax-highlighter/dist/esm/styles/prism';
-import { Copy, Check } from 'lucide-react';
+import { Copy, Check, Play, Loader2, AppWindow } from 'lucide-react';
 import { useState } from 'react';
 import { motion } from 'framer-motion';
-
-// Import languages
-import javascript from 'react-syntax-highlighter/dist/esm/languages/prism/javascript';
-import typescript from 'react-syntax-highlighter/dist/esm/languages/prism/typescript';
-import python from 'react-syntax-highlighter/dist/esm/languages/prism/python';
-import sql from 'react-syntax-highlighter/dist/esm/languages/prism/sql';
-import bash from 'react-syntax-highlighter/dist/esm/languages/prism/bash';
-import json from 'react-syntax-highlighter/dist/esm/languages/prism/json';
-
-// Register languages
-SyntaxHighlighter.registerLanguage('javascript', javascript);
-SyntaxHighlighter.registerLanguage('typescript', typescript);
-SyntaxHighlighter.registerLanguage('python', python);
-SyntaxHighlighter.registerLanguage('sql', sql);
-SyntaxHighlighter.registerLanguage('bash', bash);
-SyntaxHighlighter.registerLanguage('json', json);
+import { CodeConsole } from './CodeConsole';
+import { formatRunOutput, isRunnable, runCode, type ConsoleEntry, type RunResult } from '../lib/codeRunner';
+import { prismLanguage } from '../lib/codeLanguages';
 
 interface CodeBlockProps {
   code: string;
   language: string;
+  // The file the code is meant for, when the reply names one
+  filename?: string;
+  // Receives a run's code and output, to be sent with the next message
+  onAttachOutput?: (output: string) => void;
+  // Opens the code in the artifact preview
+  onPreview?: () => void;
 }
 
-export function CodeBlock({ code, language }: CodeBlockProps) {
+export function CodeBlock({ code, language, filename, onAttachOutput, onPreview }: CodeBlockProps) {
   const [copied, setCopied] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [showConsole, setShowConsole] = useState(false);
+  const [entries, setEntries] = useState<ConsoleEntry[]>([]);
+  const [result, setResult] = useState<RunResult>();
+  const [attached, setAttached] = useState(false);
+
+  const handleRun = async () => {
+    setRunning(true);
+    setShowConsole(true);
+    setEntries([]);
+    setResult(undefined);
+    setAttached(false);
+    const run = await runCode(code, language, entry => setEntries(prev => [...prev, entry]));
+    setResult(run);
+    setRunning(false);
+  };
+
+  const handleAttach = () => {
+    if (!result || !onAttachOutput) return;
+    onAttachOutput(formatRunOutput(code, language, result));
+    setAttached(true);
+  };
 
   const handleCopy = async () => {
     await navigator.clipboard.writeText(code);
@@ -35,44 +51,87 @@ export function CodeBlock({ code, language }: CodeBlockProps) {
   };
 
   return (
-    <motion.div 
-      className="relative group rounded-lg overflow-hidden"
-      initial={{ opacity: 0, y: 10 }}
-      animate={{ opacity: 1, y: 0 }}
-      transition={{ duration: 0.3 }}
-    >
-      <motion.button
-        onClick={handleCopy}
-        className="absolute right-2 top-2 p-2 rounded bg-white/10 hover:bg-white/20 transition-colors"
-        title={copied ? 'Copied!' : 'Copy code'}
-        whileHover={{ scale: 1.05 }}
-        whileTap={{ scale: 0.95 }}
+    <div>
+      <motion.div
+        className="relative group rounded-lg overflow-hidden"
+        initial={{ opacity: 0, y: 10 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.3 }}
       >
-        {copied ? (
-          <Check className="w-4 h-4 text-green-400" />
-        ) : (
-          <Copy className="w-4 h-4 text-gray-400" />
+        {onPreview && (
+          <motion.button
+            onClick={onPreview}
+            className="absolute right-12 top-2 p-2 rounded bg-white/10 hover:bg-white/20 transition-colors"
+            title="Open preview"
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+          >
+            <AppWindow className="w-4 h-4 text-gray-400" />
+          </motion.button>
         )}
-      </motion.button>
-      <div className="text-xs font-mono bg-white/5 px-4 py-1.5 rounded-t-lg border-b border-white/10 text-indigo-300">
-        {language}
-      </div>
-      <SyntaxHighlighter
-        language={language}
-        style={oneDark}
-        customStyle={{
-          margin: 0,
-          borderRadius: '0 0 0.5rem 0.5rem',
-          padding: '1rem',
-          background: 'rgba(0, 0, 0, 0.3)',
-          fontSize: '0.9rem',
-        }}
-        showLineNumbers={true}
-        wrapLines={true}
-        wrapLongLines={true}
-      >
-        {code}
-      </SyntaxHighlighter>
-    </motion.div>
+        {isRunnable(language) && (
+          <motion.button
+            onClick={handleRun}
+            disabled={running}
+            className="absolute right-12 top-2 p-2 rounded bg-white/10 hover:bg-white/20 disabled:opacity-50 transition-colors"
+            title="Run in a sandbox"
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+          >
+            {running ? (
+              <Loader2 className="w-4 h-4 text-gray-400 animate-spin" />
+            ) : (
+              <Play className="w-4 h-4 text-gray-400" />
+            )}
+          </motion.button>
+        )}
+        <motion.button
+          onClick={handleCopy}
+          className="absolute right-2 top-2 p-2 rounded bg-white/10 hover:bg-white/20 transition-colors"
+          title={copied ? 'Copied!' : 'Copy code'}
+          whileHover={{ scale: 1.05 }}
+          whileTap={{ scale: 0.95 }}
+        >
+          {copied ? (
+            <Check className="w-4 h-4 text-green-400" />
+          ) : (
+            <Copy className="w-4 h-4 text-gray-400" />
+          )}
+        </motion.button>
+        <div className="text-xs font-mono bg-white/5 px-4 py-1.5 rounded-t-lg border-b border-white/10 text-indigo-300">
+          {filename ? (
+            <>
+              <span className="text-gray-200">{filename}</span>
+              <span className="ml-2 text-gray-500">{language}</span>
+            </>
+          ) : language}
+        </div>
+        <SyntaxHighlighter
+          language={prismLanguage(language)}
+          style={oneDark}
+          customStyle={{
+            margin: 0,
+            borderRadius: '0 0 0.5rem 0.5rem',
+            padding: '1rem',
+            background: 'rgba(0, 0, 0, 0.3)',
+            fontSize: '0.9rem',
+          }}
+          showLineNumbers={true}
+          wrapLines={true}
+          wrapLongLines={true}
+        >
+          {code}
+        </SyntaxHighlighter>
+      </motion.div>
+      {showConsole && (
+        <CodeConsole
+          entries={entries}
+          result={result}
+          onAttach={onAttachOutput && handleAttach}
+          attached={attached}
+          onClose={() => setShowConsole(false)}
+        />
+      )}
+    </div>
   );
 }
\ No newline at end of file
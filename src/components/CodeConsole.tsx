@@ -0,0 +1,70 @@
+import { motion } from 'framer-motion';
+import { Loader2, Paperclip, Terminal, X } from 'lucide-react';
+import type { ConsoleEntry, ConsoleLevel, RunResult } from '../lib/codeRunner';
+
+interface CodeConsoleProps {
+  entries: ConsoleEntry[];
+  // Undefined while the code is still running
+  result?: RunResult;
+  // Adds the run to the next message; hidden when there is no message to add it to
+  onAttach?: () => void;
+  attached: boolean;
+  onClose: () => void;
+}
+
+const LEVEL_CLASSES: Record<ConsoleLevel, string> = {
+  log: 'text-gray-200',
+  info: 'text-sky-300',
+  warn: 'text-amber-300',
+  error: 'text-red-300',
+  result: 'text-indigo-300',
+};
+
+const STATUS_LABELS: Record<RunResult['status'], string> = {
+  ok: 'Finished',
+  error: 'Failed',
+  timeout: 'Timed out',
+};
+
+export function CodeConsole({ entries, result, onAttach, attached, onClose }: CodeConsoleProps) {
+  return (
+    <motion.div
+      initial={{ opacity: 0, height: 0 }}
+      animate={{ opacity: 1, height: 'auto' }}
+      className="mt-2 rounded-lg border border-white/10 bg-black/40 overflow-hidden"
+    >
+      <div className="flex items-center justify-between px-3 py-1.5 border-b border-white/10 text-xs text-gray-400">
+        <span className="flex items-center gap-1.5">
+          {result ? <Terminal size={12} /> : <Loader2 size={12} className="animate-spin" />}
+          {result
+            ? `${STATUS_LABELS[result.status]} in ${(result.durationMs / 1000).toFixed(1)}s`
+            : 'Running...'}
+        </span>
+        <div className="flex items-center gap-1">
+          {onAttach && result && (
+            <button
+              onClick={onAttach}
+              disabled={attached}
+              className="flex items-center gap-1 px-2 py-0.5 rounded hover:bg-white/10 hover:text-white disabled:opacity-50 disabled:hover:bg-transparent transition"
+            >
+              <Paperclip size={12} />
+              {attached ? 'Attached' : 'Attach to message'}
+            </button>
+          )}
+          <button onClick={onClose} title="Close console" className="p-0.5 rounded hover:bg-white/10 hover:text-white transition">
+            <X size={12} />
+          </button>
+        </div>
+      </div>
+      <div className="max-h-64 overflow-y-auto px-3 py-2 font-mono text-xs space-y-0.5">
+        {entries.map((entry, index) => (
+          <div key={index} className={`whitespace-pre-wrap break-words ${LEVEL_CLASSES[entry.level]}`}>
+            {entry.level === 'result' && <span className="text-gray-500">← </span>}
+            {entry.text}
+          </div>
+        ))}
+        {result && entries.length === 0 && <div className="text-gray-500">No output</div>}
+      </div>
+    </motion.div>
+  );
+}
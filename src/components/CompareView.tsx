@@ -0,0 +1,104 @@
+import { motion } from 'framer-motion';
+import { Trophy, X, Loader2, AlertTriangle, Clock, Type } from 'lucide-react';
+import type { AIModel, ResponseInfo } from '../lib/ai';
+import { findModel } from '../lib/providers';
+import { TypewriterMessage } from './TypewriterMessage';
+
+export interface CompareResult {
+  model: AIModel;
+  content: string;
+  status: 'streaming' | 'done' | 'stopped' | 'failed';
+  error?: string;
+  info?: ResponseInfo;
+}
+
+interface CompareViewProps {
+  results: CompareResult[];
+  // Disables picking while any column is still generating
+  busy: boolean;
+  onPick: (result: CompareResult) => void;
+  onDiscard: () => void;
+}
+
+export function CompareView({ results, busy, onPick, onDiscard }: CompareViewProps) {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="rounded-lg border border-white/10 bg-black/20 p-3"
+    >
+      <div className="flex items-center justify-between mb-3 px-1">
+        <span className="text-sm text-gray-400">Pick the best answer to keep in the conversation</span>
+        <button
+          onClick={onDiscard}
+          disabled={busy}
+          title="Discard all answers"
+          className="p-1 text-gray-400 hover:text-white disabled:opacity-30 transition"
+        >
+          <X size={16} />
+        </button>
+      </div>
+      <div
+        className="grid gap-3"
+        style={{ gridTemplateColumns: `repeat(${results.length}, minmax(0, 1fr))` }}
+      >
+        {results.map((result) => (
+          <div
+            key={`${result.model.provider}/${result.model.modelId}`}
+            className={`flex flex-col rounded-lg p-4 min-w-0 ${
+              result.status === 'failed'
+                ? 'bg-red-500/10 border border-red-500/30'
+                : 'bg-gray-800/50 border border-transparent'
+            }`}
+          >
+            <div className="flex items-center justify-between gap-2 mb-3">
+              <span className="text-sm font-medium text-indigo-300 truncate">
+                {findModel(result.model.provider, result.model.modelId)?.name ?? result.model.modelId}
+              </span>
+              {result.status === 'streaming' && (
+                <Loader2 className="w-4 h-4 text-indigo-400 animate-spin shrink-0" />
+              )}
+            </div>
+
+            <div className="flex-1 text-white min-w-0 overflow-x-auto">
+              {result.content ? (
+                <TypewriterMessage content={result.content} isStreaming={result.status === 'streaming'} animate={false} />
+              ) : result.status === 'streaming' ? (
+                <span className="text-gray-400 text-sm">Thinking...</span>
+              ) : null}
+              {result.status === 'failed' && (
+                <div className="flex items-start gap-2 mt-2 text-sm text-red-300">
+                  <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                  <span>{result.error}</span>
+                </div>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between gap-2 mt-4 pt-3 border-t border-white/10">
+              <div className="flex items-center gap-3 text-xs text-gray-400">
+                {result.info && (
+                  <span className="flex items-center gap-1">
+                    <Clock size={12} />
+                    {(result.info.latencyMs / 1000).toFixed(1)}s
+                  </span>
+                )}
+                <span className="flex items-center gap-1">
+                  <Type size={12} />
+                  {result.content.length.toLocaleString()} chars
+                </span>
+              </div>
+              <button
+                onClick={() => onPick(result)}
+                disabled={busy || !result.content || result.status === 'failed'}
+                className="flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs bg-amber-500/20 text-amber-300 hover:bg-amber-500/30 disabled:opacity-30 disabled:cursor-not-allowed transition"
+              >
+                <Trophy size={12} />
+                Keep
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </motion.div>
+  );
+}
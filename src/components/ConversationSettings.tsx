@@ -0,0 +1,192 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { X } from 'lucide-react';
+import type { AIModel } from '../lib/ai';
+import { listProviders } from '../lib/providers';
+
+export interface ConversationSettingsValues {
+  model: AIModel;
+  systemPrompt: string;
+  // null leaves the parameter to the provider default
+  temperature: number | null;
+  topP: number | null;
+  maxTokens: number | null;
+  stopSequences: string[];
+  // Rolling summary sent in place of the older turns
+  summary: string;
+}
+
+interface ConversationSettingsProps {
+  settings: ConversationSettingsValues;
+  onSave: (settings: ConversationSettingsValues) => void;
+  onClose: () => void;
+}
+
+function parseOptionalNumber(value: string): number | null {
+  if (value.trim() === '') return null;
+  const parsed = Number(value);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+export function ConversationSettings({ settings, onSave, onClose }: ConversationSettingsProps) {
+  const [model, setModel] = useState(settings.model);
+  const [systemPrompt, setSystemPrompt] = useState(settings.systemPrompt);
+  const [temperature, setTemperature] = useState(settings.temperature?.toString() ?? '');
+  const [topP, setTopP] = useState(settings.topP?.toString() ?? '');
+  const [maxTokens, setMaxTokens] = useState(settings.maxTokens?.toString() ?? '');
+  const [stopSequences, setStopSequences] = useState(settings.stopSequences.join('\n'));
+  const [summary, setSummary] = useState(settings.summary);
+
+  const handleSave = () => {
+    const maxTokensValue = parseOptionalNumber(maxTokens);
+    onSave({
+      model,
+      systemPrompt: systemPrompt.trim(),
+      temperature: parseOptionalNumber(temperature),
+      topP: parseOptionalNumber(topP),
+      maxTokens: maxTokensValue === null ? null : Math.max(1, Math.round(maxTokensValue)),
+      stopSequences: stopSequences.split('\n').filter(sequence => sequence.length > 0),
+      summary: summary.trim(),
+    });
+  };
+
+  const inputClassName = 'w-full bg-black/30 text-white rounded-lg px-3 py-2 text-sm border border-white/10 focus:outline-none focus:ring-1 focus:ring-indigo-500/50';
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.95 }}
+        animate={{ scale: 1 }}
+        exit={{ scale: 0.95 }}
+        className="w-full max-w-lg max-h-[90vh] overflow-y-auto bg-gray-900 rounded-lg border border-white/10 shadow-xl p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-white font-semibold">Conversation Settings</h3>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-white transition">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <label className="block">
+            <span className="block text-gray-400 text-sm mb-1">Model</span>
+            <select
+              value={`${model.provider}::${model.modelId}`}
+              onChange={(e) => {
+                const [provider, modelId] = e.target.value.split('::');
+                setModel({ provider, modelId });
+              }}
+              className={inputClassName}
+            >
+              {listProviders().map((provider) => (
+                <optgroup key={provider.id} label={provider.name}>
+                  {provider.models.map((m) => (
+                    <option key={m.id} value={`${provider.id}::${m.id}`}>{m.name}</option>
+                  ))}
+                </optgroup>
+              ))}
+            </select>
+          </label>
+
+          <label className="block">
+            <span className="block text-gray-400 text-sm mb-1">System prompt</span>
+            <textarea
+              value={systemPrompt}
+              onChange={(e) => setSystemPrompt(e.target.value)}
+              rows={5}
+              placeholder="You are a helpful assistant..."
+              className={`${inputClassName} resize-y`}
+            />
+          </label>
+
+          <div className="grid grid-cols-3 gap-3">
+            <label className="block">
+              <span className="block text-gray-400 text-sm mb-1">Temperature</span>
+              <input
+                type="number"
+                min={0}
+                max={2}
+                step={0.1}
+                value={temperature}
+                onChange={(e) => setTemperature(e.target.value)}
+                placeholder="Default"
+                className={inputClassName}
+              />
+            </label>
+            <label className="block">
+              <span className="block text-gray-400 text-sm mb-1">Top P</span>
+              <input
+                type="number"
+                min={0}
+                max={1}
+                step={0.05}
+                value={topP}
+                onChange={(e) => setTopP(e.target.value)}
+                placeholder="Default"
+                className={inputClassName}
+              />
+            </label>
+            <label className="block">
+              <span className="block text-gray-400 text-sm mb-1">Max tokens</span>
+              <input
+                type="number"
+                min={1}
+                step={1}
+                value={maxTokens}
+                onChange={(e) => setMaxTokens(e.target.value)}
+                placeholder="Default"
+                className={inputClassName}
+              />
+            </label>
+          </div>
+
+          <label className="block">
+            <span className="block text-gray-400 text-sm mb-1">Stop sequences (one per line)</span>
+            <textarea
+              value={stopSequences}
+              onChange={(e) => setStopSequences(e.target.value)}
+              rows={2}
+              className={`${inputClassName} resize-y font-mono`}
+            />
+          </label>
+
+          <label className="block">
+            <span className="block text-gray-400 text-sm mb-1">Summary of earlier messages</span>
+            <textarea
+              value={summary}
+              onChange={(e) => setSummary(e.target.value)}
+              rows={4}
+              placeholder="Written automatically once the conversation outgrows the model's context"
+              className={`${inputClassName} resize-y`}
+            />
+            <span className="block text-gray-500 text-xs mt-1">
+              Sent instead of the summarized messages. Clear it to send the full history again.
+            </span>
+          </label>
+        </div>
+
+        <div className="flex justify-end gap-2 mt-6">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 rounded-lg text-sm text-gray-400 hover:text-white hover:bg-white/5 transition"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="px-4 py-2 rounded-lg text-sm bg-indigo-600/20 border border-indigo-500/30 text-white hover:bg-indigo-600/30 transition"
+          >
+            Save
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { DiagramBlock } from './DiagramBlock';
+
+vi.mock('../lib/diagrams', () => ({
+  renderDiagram: vi.fn(async (_language: string, source: string) => {
+    if (source.includes('-->>')) throw new Error('Parse error on line 1');
+    return '<svg xmlns="http://www.w3.org/2000/svg"><text>drawn</text></svg>';
+  }),
+  svgToPng: vi.fn(),
+}));
+
+describe('DiagramBlock', () => {
+  it('draws the diagram and toggles to the source', async () => {
+    render(<DiagramBlock code="graph TD; A-->B" language="mermaid" diagram="mermaid" />);
+
+    expect(await screen.findByText('drawn')).toBeTruthy();
+    fireEvent.click(screen.getByTitle('Show source'));
+    expect(screen.queryByText('drawn')).toBeNull();
+    expect(screen.getByTitle('Show diagram')).toBeTruthy();
+  });
+
+  it('falls back to the code with the parse error', async () => {
+    render(<DiagramBlock code="sequenceDiagram A-->>" language="mermaid" diagram="mermaid" />);
+
+    expect(await screen.findByText(/Parse error on line 1/)).toBeTruthy();
+    expect(screen.queryByTitle('Export SVG')).toBeNull();
+  });
+});
@@ -0,0 +1,114 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { AlertTriangle, Code, FileDown, ImageDown, Loader2, Workflow } from 'lucide-react';
+import { CodeBlock } from './CodeBlock';
+import { renderDiagram, svgToPng, type DiagramLanguage } from '../lib/diagrams';
+import { downloadBlob } from '../utils/download';
+
+interface DiagramBlockProps {
+  code: string;
+  // As written in the fence, shown in the header and used for the source view
+  language: string;
+  diagram: DiagramLanguage;
+}
+
+// Wait for the source to stop changing before rendering, so a diagram that is
+// still streaming in isn't re-rendered (and reported broken) on every token
+const RENDER_DELAY_MS = 300;
+
+export function DiagramBlock({ code, language, diagram }: DiagramBlockProps) {
+  const [svg, setSvg] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [showSource, setShowSource] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const rendered = await renderDiagram(diagram, code);
+        if (cancelled) return;
+        setSvg(rendered);
+        setError(null);
+      } catch (error) {
+        if (cancelled) return;
+        setSvg(null);
+        setError(error instanceof Error ? error.message : String(error));
+      }
+    }, RENDER_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [code, diagram]);
+
+  const exportSvg = () => {
+    if (svg) downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), 'diagram.svg');
+  };
+
+  const exportPng = async () => {
+    if (!svg) return;
+    try {
+      downloadBlob(await svgToPng(svg), 'diagram.png');
+    } catch (error) {
+      console.error('Error exporting diagram:', error);
+    }
+  };
+
+  if (error) {
+    return (
+      <div>
+        <CodeBlock code={code} language={language} />
+        <div className="flex items-start gap-2 mt-2 text-sm text-red-300">
+          <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+          <span className="whitespace-pre-wrap">Could not draw this diagram: {error}</span>
+        </div>
+      </div>
+    );
+  }
+
+  const buttonClass = 'p-1.5 rounded hover:bg-white/10 text-gray-400 hover:text-white disabled:opacity-30 transition';
+
+  return (
+    <motion.div
+      className="rounded-lg overflow-hidden border border-white/10"
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3 }}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between bg-white/5 px-4 py-1 border-b border-white/10">
+        <span className="text-xs font-mono text-indigo-300">{language}</span>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setShowSource(!showSource)}
+            title={showSource ? 'Show diagram' : 'Show source'}
+            className={buttonClass}
+          >
+            {showSource ? <Workflow size={14} /> : <Code size={14} />}
+          </button>
+          <button onClick={exportSvg} disabled={!svg} title="Export SVG" className={buttonClass}>
+            <FileDown size={14} />
+          </button>
+          <button onClick={exportPng} disabled={!svg} title="Export PNG" className={buttonClass}>
+            <ImageDown size={14} />
+          </button>
+        </div>
+      </div>
+      {showSource ? (
+        <CodeBlock code={code} language={language} />
+      ) : svg ? (
+        <div
+          className="p-4 bg-black/30 overflow-x-auto [&_svg]:max-w-full [&_svg]:h-auto [&_svg]:mx-auto"
+          // Sanitized in renderDiagram
+          dangerouslySetInnerHTML={{ __html: svg }}
+        />
+      ) : (
+        <div className="flex items-center gap-2 p-4 bg-black/30 text-sm text-gray-400">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Drawing diagram...
+        </div>
+      )}
+    </motion.div>
+  );
+}
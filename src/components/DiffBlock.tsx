@@ -0,0 +1,151 @@
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Check, Code, Columns2, Copy, GitCompare, Rows2 } from 'lucide-react';
+import { CodeBlock } from './CodeBlock';
+import { diffLines, diffStats, parseUnifiedDiff, splitRows, type DiffLine, type DiffLineKind } from '../lib/diff';
+
+interface DiffBlockProps {
+  code: string;
+  // As written in the fence, shown in the header and used for the source view
+  language: string;
+  // The "before" version when `code` is its "after"; without it, `code` is a
+  // unified diff
+  before?: string;
+}
+
+const LINE_CLASSES: Record<DiffLineKind, string> = {
+  context: 'text-gray-300',
+  added: 'bg-green-500/10 text-green-200',
+  removed: 'bg-red-500/10 text-red-200',
+  hunk: 'bg-indigo-500/10 text-indigo-300',
+  meta: 'text-gray-500',
+};
+
+const SIGNS: Partial<Record<DiffLineKind, string>> = {
+  added: '+',
+  removed: '-',
+};
+
+const GUTTER_CLASSES: Record<DiffLineKind, string> = {
+  context: '',
+  added: 'bg-green-500/10',
+  removed: 'bg-red-500/10',
+  hunk: '',
+  meta: '',
+};
+
+const gutterClass = 'w-10 px-2 text-right text-gray-600 select-none align-top';
+
+function LineText({ line }: { line: DiffLine }) {
+  return (
+    <td className={`px-2 whitespace-pre-wrap break-all ${LINE_CLASSES[line.kind]}`}>
+      <span className="inline-block w-3 select-none text-gray-500">{SIGNS[line.kind] ?? ' '}</span>
+      {line.text}
+    </td>
+  );
+}
+
+export function DiffBlock({ code, language, before }: DiffBlockProps) {
+  const [split, setSplit] = useState(false);
+  const [showSource, setShowSource] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const lines = useMemo(
+    () => before === undefined ? parseUnifiedDiff(code) : diffLines(before, code),
+    [before, code]
+  );
+  const rows = useMemo(() => split ? splitRows(lines) : [], [split, lines]);
+  const stats = diffStats(lines);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(code);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const buttonClass = 'p-1.5 rounded hover:bg-white/10 text-gray-400 hover:text-white transition';
+
+  return (
+    <motion.div
+      className="rounded-lg overflow-hidden border border-white/10"
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3 }}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between bg-white/5 px-4 py-1 border-b border-white/10">
+        <span className="flex items-center gap-3 text-xs font-mono">
+          <span className="text-indigo-300">{language}</span>
+          {before !== undefined && <span className="text-gray-500">changes from the version above</span>}
+          <span className="text-green-400">+{stats.added}</span>
+          <span className="text-red-400">-{stats.removed}</span>
+        </span>
+        <div className="flex items-center gap-1">
+          {!showSource && (
+            <button
+              onClick={() => setSplit(!split)}
+              title={split ? 'Unified view' : 'Split view'}
+              className={buttonClass}
+            >
+              {split ? <Rows2 size={14} /> : <Columns2 size={14} />}
+            </button>
+          )}
+          <button
+            onClick={() => setShowSource(!showSource)}
+            title={showSource ? 'Show changes' : 'Show source'}
+            className={buttonClass}
+          >
+            {showSource ? <GitCompare size={14} /> : <Code size={14} />}
+          </button>
+          <button onClick={handleCopy} title={copied ? 'Copied!' : 'Copy code'} className={buttonClass}>
+            {copied ? <Check size={14} className="text-green-400" /> : <Copy size={14} />}
+          </button>
+        </div>
+      </div>
+      {showSource ? (
+        <CodeBlock code={code} language={language} />
+      ) : (
+        <div className="bg-black/30 overflow-x-auto py-2">
+          <table className="w-full table-fixed font-mono text-xs leading-5 border-collapse">
+            <tbody>
+              {split
+                ? rows.map(({ left, right }, index) =>
+                    left && !right && (left.kind === 'hunk' || left.kind === 'meta') ? (
+                      <tr key={index}>
+                        <td colSpan={4} className={`px-4 whitespace-pre-wrap break-all ${LINE_CLASSES[left.kind]}`}>{left.text}</td>
+                      </tr>
+                    ) : (
+                      <tr key={index}>
+                        <td className={`${gutterClass} ${left ? GUTTER_CLASSES[left.kind] : ''}`}>{left?.oldLine}</td>
+                        {left ? (
+                          <LineText line={left} />
+                        ) : (
+                          <td className="bg-white/[0.02]" />
+                        )}
+                        <td className={`${gutterClass} border-l border-white/10 ${right ? GUTTER_CLASSES[right.kind] : ''}`}>
+                          {right?.newLine}
+                        </td>
+                        {right ? <LineText line={right} /> : <td className="bg-white/[0.02]" />}
+                      </tr>
+                    )
+                  )
+                : lines.map((line, index) => (
+                    <tr key={index}>
+                      {line.kind === 'hunk' || line.kind === 'meta' ? (
+                        <td colSpan={3} className={`px-4 whitespace-pre-wrap break-all ${LINE_CLASSES[line.kind]}`}>{line.text}</td>
+                      ) : (
+                        <>
+                          <td className={`${gutterClass} ${GUTTER_CLASSES[line.kind]}`}>{line.oldLine}</td>
+                          <td className={`${gutterClass} ${GUTTER_CLASSES[line.kind]}`}>{line.newLine}</td>
+                          <LineText line={line} />
+                        </>
+                      )}
+                    </tr>
+                  ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </motion.div>
+  );
+}
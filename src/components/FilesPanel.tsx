@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { ChevronDown, ChevronRight, Download, FileCode, FolderTree, X } from 'lucide-react';
+import { CodeBlock } from './CodeBlock';
+import { buildArchive, type ProjectFile } from '../lib/projectFiles';
+import { detectLanguage } from '../lib/codeLanguages';
+import { downloadBlob } from '../utils/download';
+
+interface FilesPanelProps {
+  files: ProjectFile[];
+  // Names the archive
+  title: string;
+  onClose: () => void;
+}
+
+function archiveName(title: string): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug || 'project'}.zip`;
+}
+
+export function FilesPanel({ files, title, onClose }: FilesPanelProps) {
+  const [openPath, setOpenPath] = useState<string | null>(null);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, x: 20 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, x: 20 }}
+      transition={{ duration: 0.3 }}
+      className="w-[480px] shrink-0 flex flex-col border-l border-white/10 bg-black/30"
+    >
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-white/10">
+        <FolderTree size={16} className="text-indigo-400 shrink-0" />
+        <span className="flex-1 text-sm text-white">
+          Files <span className="text-gray-500">({files.length})</span>
+        </span>
+        <button
+          onClick={() => downloadBlob(buildArchive(files), archiveName(title))}
+          title="Download all as a zip"
+          className="flex items-center gap-1.5 px-2 py-1 rounded text-xs text-gray-300 hover:text-white hover:bg-white/10 transition"
+        >
+          <Download size={14} />
+          Download zip
+        </button>
+        <button
+          onClick={onClose}
+          title="Close"
+          className="p-1.5 rounded text-gray-400 hover:text-white hover:bg-white/10 transition"
+        >
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-y-auto py-2">
+        {files.map(file => {
+          const open = file.path === openPath;
+          const slash = file.path.lastIndexOf('/');
+          return (
+            <div key={file.path}>
+              <button
+                onClick={() => setOpenPath(open ? null : file.path)}
+                title={`Latest version from ${new Date(file.createdAt).toLocaleString()}`}
+                className={`w-full flex items-center gap-2 px-4 py-1.5 text-left text-sm font-mono transition ${
+                  open ? 'bg-indigo-600/20 text-white' : 'text-gray-300 hover:bg-white/5 hover:text-white'
+                }`}
+              >
+                {open ? <ChevronDown size={14} className="shrink-0" /> : <ChevronRight size={14} className="shrink-0" />}
+                <FileCode size={14} className="shrink-0 text-gray-500" />
+                <span className="flex-1 min-w-0 truncate">
+                  <span className="text-gray-500">{file.path.slice(0, slash + 1)}</span>
+                  {file.path.slice(slash + 1)}
+                </span>
+                {file.versions > 1 && (
+                  <span className="shrink-0 text-xs text-gray-500">v{file.versions}</span>
+                )}
+              </button>
+              {open && (
+                <div className="px-3 py-2">
+                  <CodeBlock code={file.code} language={file.language || detectLanguage(file.code)} filename={file.path} />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </motion.div>
+  );
+}
@@ -14,7 +14,8 @@ export interface ImageAnalysisResult {
 }
 
 interface ImageAnalysisProps {
-  onAnalysisComplete?: (results: ImageAnalysisResult[]) => void;
+  // `image` is the compressed upload, so it can be sent to vision models
+  onAnalysisComplete?: (results: ImageAnalysisResult[], image?: Blob) => void;
 }
 
 export function ImageAnalysis({ onAnalysisComplete }: ImageAnalysisProps) {
@@ -143,7 +144,7 @@ export function ImageAnalysis({ onAnalysisComplete }: ImageAnalysisProps) {
       results.push({ id: uuidv4(), type: "text", content: cleanText });
 
       setResults(results);
-      onAnalysisComplete?.(results);
+      onAnalysisComplete?.(results, compressedFile);
     } catch (err) {
       console.error('Image analysis error:', err);
       setError("Image analysis failed. Try another image.");
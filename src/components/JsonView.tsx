@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Braces, Check, ChevronRight, Copy } from 'lucide-react';
+
+interface JsonViewProps {
+  data: unknown;
+}
+
+interface JsonNodeProps {
+  name?: string;
+  value: unknown;
+  // Nested objects start collapsed below this depth
+  depth: number;
+}
+
+const EXPANDED_DEPTH = 2;
+
+function JsonValue({ value }: { value: unknown }) {
+  if (value === null) return <span className="text-gray-500">null</span>;
+  if (typeof value === 'string') return <span className="text-green-300 break-all">"{value}"</span>;
+  if (typeof value === 'number') return <span className="text-amber-300">{value}</span>;
+  if (typeof value === 'boolean') return <span className="text-purple-300">{String(value)}</span>;
+  return <span className="text-gray-400">{String(value)}</span>;
+}
+
+function JsonNode({ name, value, depth }: JsonNodeProps) {
+  const [expanded, setExpanded] = useState(depth < EXPANDED_DEPTH);
+  const label = name !== undefined && <span className="text-indigo-300">{name}: </span>;
+
+  if (typeof value !== 'object' || value === null) {
+    return (
+      <div className="pl-5">
+        {label}
+        <JsonValue value={value} />
+      </div>
+    );
+  }
+
+  const isArray = Array.isArray(value);
+  const entries = isArray ? value.map((item, i) => [String(i), item] as const) : Object.entries(value);
+  const [open, close] = isArray ? ['[', ']'] : ['{', '}'];
+
+  return (
+    <div>
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center gap-1 text-left hover:bg-white/5 rounded"
+      >
+        <motion.span animate={{ rotate: expanded ? 90 : 0 }} transition={{ duration: 0.15 }} className="text-gray-500">
+          <ChevronRight size={14} />
+        </motion.span>
+        <span>
+          {label}
+          <span className="text-gray-400">{open}</span>
+          {!expanded && (
+            <span className="text-gray-500">
+              {' '}{entries.length} {isArray ? (entries.length === 1 ? 'item' : 'items') : (entries.length === 1 ? 'key' : 'keys')}{' '}
+              {close}
+            </span>
+          )}
+        </span>
+      </button>
+      {expanded && (
+        <>
+          <div className="pl-4 border-l border-white/10 ml-[7px]">
+            {entries.map(([key, item]) => (
+              <JsonNode key={key} name={key} value={item} depth={depth + 1} />
+            ))}
+          </div>
+          <div className="pl-5 text-gray-400">{close}</div>
+        </>
+      )}
+    </div>
+  );
+}
+
+// Validated structured output, shown as a collapsible tree
+export function JsonView({ data }: JsonViewProps) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(JSON.stringify(data, null, 2));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="rounded-lg overflow-hidden border border-white/10">
+      <div className="flex items-center justify-between bg-white/5 px-3 py-1.5 border-b border-white/10">
+        <span className="flex items-center gap-1.5 text-xs font-mono text-indigo-300">
+          <Braces size={12} />
+          JSON
+        </span>
+        <button
+          onClick={handleCopy}
+          className="p-1 rounded hover:bg-white/10 transition-colors"
+          title={copied ? 'Copied!' : 'Copy JSON'}
+        >
+          {copied ? (
+            <Check className="w-4 h-4 text-green-400" />
+          ) : (
+            <Copy className="w-4 h-4 text-gray-400" />
+          )}
+        </button>
+      </div>
+      <div className="p-3 bg-black/30 font-mono text-sm overflow-x-auto">
+        <JsonNode value={data} depth={0} />
+      </div>
+    </div>
+  );
+}
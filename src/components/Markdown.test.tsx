@@ -0,0 +1,104 @@
+import { describe, expect, it, vi } from 'vitest';
+import { fireEvent, render } from '@testing-library/react';
+import { Markdown } from './Markdown';
+import { parseMarkdown } from '../utils/markdown';
+
+function renderMarkdown(markdown: string) {
+  return render(<Markdown root={parseMarkdown(markdown)} />).container;
+}
+
+describe('Markdown', () => {
+  it('renders headings, lists, tables and inline formatting', () => {
+    const container = renderMarkdown([
+      '## Plan',
+      '',
+      '- **bold** and *italic*',
+      '- [x] done',
+      '',
+      '| a | b |',
+      '|---|--:|',
+      '| 1 | `2` |',
+    ].join('\n'));
+
+    expect(container.querySelector('h2')?.textContent).toBe('Plan');
+    expect(container.querySelector('li strong')?.textContent).toBe('bold');
+    expect(container.querySelector<HTMLInputElement>('input[type=checkbox]')?.checked).toBe(true);
+    expect(container.querySelector('th')?.textContent).toBe('a');
+    expect(container.querySelector('td.text-right code')?.textContent).toBe('2');
+  });
+
+  it('shows raw HTML as text', () => {
+    const container = renderMarkdown('<img src=x onerror="alert(1)"> and <b>bold</b>');
+    expect(container.querySelector('img, b')).toBeNull();
+    expect(container.textContent).toContain('<img src=x onerror="alert(1)">');
+  });
+
+  it('only links to web and mail URLs', () => {
+    const container = renderMarkdown('[safe](https://example.com) [unsafe](javascript:alert(1)) [ref][1]\n\n[1]: https://example.org');
+    const links = Array.from(container.querySelectorAll('a'), a => a.getAttribute('href'));
+    expect(links).toEqual(['https://example.com', 'https://example.org']);
+    expect(container.textContent).toContain('unsafe');
+  });
+
+  it('does not load images', () => {
+    const container = renderMarkdown('![chart](https://example.com/chart.png)');
+    expect(container.querySelector('img')).toBeNull();
+    expect(container.querySelector('a')?.textContent).toBe('chart');
+  });
+
+  it('copes with markdown that is still arriving', () => {
+    const container = renderMarkdown('Some **bold\n\n```py\nprint(1');
+    expect(container.textContent).toContain('Some **bold');
+    expect(container.textContent).toContain('print(1');
+  });
+});
+
+describe('Markdown math', () => {
+  it('typesets inline and display formulas', () => {
+    const container = renderMarkdown('The mean is $\\mu = \\frac{1}{n}\\sum x_i$.\n\n$$\nE = mc^2\n$$');
+    expect(container.querySelectorAll('.katex')).toHaveLength(2);
+    expect(container.querySelectorAll('.katex-display')).toHaveLength(1);
+  });
+
+  it('treats a formula alone on its line as display math', () => {
+    const container = renderMarkdown('$$a^2 + b^2 = c^2$$');
+    expect(container.querySelector('.katex-display')).not.toBeNull();
+  });
+
+  it('copies the TeX source', async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined);
+    Object.assign(navigator, { clipboard: { writeText } });
+    const container = renderMarkdown('$x^2$');
+    fireEvent.click(container.querySelector('button[title="Copy TeX"]')!);
+    expect(writeText).toHaveBeenCalledWith('x^2');
+  });
+});
+
+describe('Markdown code', () => {
+  it('shows a diff fence as added and removed lines', () => {
+    const container = renderMarkdown('```diff\n@@ -1 +1 @@\n-old line\n+new line\n```');
+    expect(container.querySelector('td.break-all.bg-red-500\\/10')?.textContent).toContain('old line');
+    expect(container.querySelector('td.break-all.bg-green-500\\/10')?.textContent).toContain('new line');
+  });
+
+  it('compares a before/after pair', () => {
+    const container = renderMarkdown([
+      'Before:',
+      '',
+      '```js',
+      'const a = 1;',
+      'const b = 2;',
+      '```',
+      '',
+      'After:',
+      '',
+      '```js',
+      'const a = 1;',
+      'const b = 3;',
+      '```',
+    ].join('\n'));
+
+    expect(container.textContent).toContain('changes from the version above');
+    expect(container.querySelector('td.break-all.bg-green-500\\/10')?.textContent).toContain('const b = 3;');
+  });
+});
@@ -0,0 +1,243 @@
+import React, { useMemo } from 'react';
+import { Image } from 'lucide-react';
+import type { AlignType, Code, Definition } from 'mdast';
+import { CodeBlock } from './CodeBlock';
+import { DiagramBlock } from './DiagramBlock';
+import { DiffBlock } from './DiffBlock';
+import { MathFormula } from './MathFormula';
+import { diagramLanguage } from '../lib/diagrams';
+import { artifactKind } from '../lib/artifacts';
+import { detectLanguage, prismLanguage } from '../lib/codeLanguages';
+import { codeFileName } from '../lib/projectFiles';
+import { collectComparisons, collectDefinitions, isSafeUrl, type Nodes, type Root } from '../utils/markdown';
+
+interface MarkdownProps {
+  root: Root;
+  // Offered by code blocks that can be run, to send their output with the next message
+  onAttachOutput?: (output: string) => void;
+  // Offered by html/jsx/tsx blocks, to open them in the artifact panel
+  onPreviewCode?: (code: string) => void;
+}
+
+interface RenderContext {
+  definitions: Map<string, Definition>;
+  // "After" blocks of before/after pairs, with the "before" code
+  comparisons: Map<Code, string>;
+  onAttachOutput?: (output: string) => void;
+  onPreviewCode?: (code: string) => void;
+  // Inside a list without blank lines between items: no paragraph spacing
+  tight?: boolean;
+}
+
+const HEADING_CLASSES = [
+  'text-2xl font-bold mt-6 mb-3',
+  'text-xl font-bold mt-5 mb-3',
+  'text-lg font-semibold mt-4 mb-2',
+  'text-base font-semibold mt-4 mb-2',
+  'text-sm font-semibold mt-3 mb-2',
+  'text-sm font-semibold text-gray-300 mt-3 mb-2',
+];
+
+const ALIGN_CLASSES: Record<NonNullable<AlignType>, string> = {
+  left: 'text-left',
+  center: 'text-center',
+  right: 'text-right',
+};
+
+function ExternalLink({ href, title, children }: { href: string; title?: string | null; children: React.ReactNode }) {
+  if (!isSafeUrl(href)) return <>{children}</>;
+  return (
+    <a
+      href={href}
+      title={title ?? undefined}
+      target="_blank"
+      rel="noopener noreferrer"
+      onClick={(e) => e.stopPropagation()}
+      className="text-indigo-400 underline decoration-indigo-400/30 hover:decoration-indigo-400 transition"
+    >
+      {children}
+    </a>
+  );
+}
+
+// Remote images aren't loaded, so a reply can't make the browser contact
+// arbitrary servers; they are shown as links instead
+function ImageLink({ url, alt }: { url: string; alt?: string | null }) {
+  return (
+    <ExternalLink href={url}>
+      <Image size={14} className="inline mr-1 -mt-0.5" />
+      {alt || url}
+    </ExternalLink>
+  );
+}
+
+function renderChildren(nodes: Nodes[], context: RenderContext): React.ReactNode[] {
+  return nodes.map((node, index) => renderNode(node, context, index));
+}
+
+function renderNode(node: Nodes, context: RenderContext, key: number): React.ReactNode {
+  switch (node.type) {
+    case 'root':
+      return <React.Fragment key={key}>{renderChildren(node.children, context)}</React.Fragment>;
+    case 'paragraph':
+      // Models often write display math as $$...$$ within a line, which
+      // parses as inline math; alone in its paragraph it is meant as display
+      if (node.children.length === 1 && node.children[0].type === 'inlineMath') {
+        return <MathFormula key={key} tex={node.children[0].value} display />;
+      }
+      return context.tight
+        ? <React.Fragment key={key}>{renderChildren(node.children, context)}</React.Fragment>
+        : <p key={key} className="whitespace-pre-wrap my-3 first:mt-0 last:mb-0">{renderChildren(node.children, context)}</p>;
+    case 'heading': {
+      const Tag = `h${node.depth}` as const;
+      return (
+        <Tag key={key} className={`${HEADING_CLASSES[node.depth - 1]} first:mt-0`}>
+          {renderChildren(node.children, context)}
+        </Tag>
+      );
+    }
+    case 'thematicBreak':
+      return <hr key={key} className="my-4 border-white/10" />;
+    case 'blockquote':
+      return (
+        <blockquote key={key} className="my-3 pl-4 border-l-2 border-indigo-500/40 text-gray-300">
+          {renderChildren(node.children, { ...context, tight: false })}
+        </blockquote>
+      );
+    case 'list': {
+      const items = renderChildren(node.children, { ...context, tight: !node.spread });
+      return node.ordered ? (
+        <ol key={key} start={node.start ?? undefined} className="my-3 pl-6 list-decimal space-y-1">{items}</ol>
+      ) : (
+        <ul key={key} className="my-3 pl-6 list-disc space-y-1">{items}</ul>
+      );
+    }
+    case 'listItem':
+      return (
+        <li key={key} className={node.checked != null ? 'list-none -ml-5' : undefined}>
+          {node.checked != null && (
+            <input type="checkbox" checked={node.checked} readOnly className="mr-2 accent-indigo-500 align-middle" />
+          )}
+          {renderChildren(node.children, context)}
+        </li>
+      );
+    case 'code': {
+      const diagram = diagramLanguage(node.lang);
+      const language = node.lang || detectLanguage(node.value);
+      const before = context.comparisons.get(node);
+      return (
+        <div key={key} className="my-4">
+          {diagram ? (
+            <DiagramBlock code={node.value} language={node.lang!} diagram={diagram} />
+          ) : before !== undefined ? (
+            <DiffBlock code={node.value} language={language} before={before} />
+          ) : prismLanguage(language) === 'diff' ? (
+            <DiffBlock code={node.value} language={language} />
+          ) : (
+            <CodeBlock
+              code={node.value}
+              language={language}
+              filename={codeFileName(node) ?? undefined}
+              onAttachOutput={context.onAttachOutput}
+              onPreview={context.onPreviewCode && artifactKind(node.lang) ? () => context.onPreviewCode!(node.value) : undefined}
+            />
+          )}
+        </div>
+      );
+    }
+    case 'math':
+      return <MathFormula key={key} tex={node.value} display />;
+    case 'table':
+      return (
+        <div key={key} className="my-4 overflow-x-auto">
+          <table className="min-w-full text-sm border-collapse">
+            <thead>
+              <tr>
+                {node.children[0]?.children.map((cell, index) => (
+                  <th
+                    key={index}
+                    className={`px-3 py-2 border-b border-white/20 font-semibold ${ALIGN_CLASSES[node.align?.[index] ?? 'left']}`}
+                  >
+                    {renderChildren(cell.children, context)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {node.children.slice(1).map((row, rowIndex) => (
+                <tr key={rowIndex} className="border-b border-white/5">
+                  {row.children.map((cell, index) => (
+                    <td key={index} className={`px-3 py-2 ${ALIGN_CLASSES[node.align?.[index] ?? 'left']}`}>
+                      {renderChildren(cell.children, context)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    case 'text':
+      return node.value;
+    case 'html':
+      // Never interpreted; the markup is shown as written
+      return node.value;
+    case 'emphasis':
+      return <em key={key}>{renderChildren(node.children, context)}</em>;
+    case 'strong':
+      return <strong key={key} className="font-semibold">{renderChildren(node.children, context)}</strong>;
+    case 'delete':
+      return <del key={key} className="text-gray-400">{renderChildren(node.children, context)}</del>;
+    case 'inlineCode':
+      return (
+        <code key={key} className="px-1.5 py-0.5 rounded bg-white/10 font-mono text-[0.9em] text-indigo-200">
+          {node.value}
+        </code>
+      );
+    case 'inlineMath':
+      return <MathFormula key={key} tex={node.value} display={false} />;
+    case 'break':
+      return <br key={key} />;
+    case 'link':
+      return (
+        <ExternalLink key={key} href={node.url} title={node.title}>
+          {renderChildren(node.children, context)}
+        </ExternalLink>
+      );
+    case 'image':
+      return <ImageLink key={key} url={node.url} alt={node.alt} />;
+    case 'linkReference': {
+      const definition = context.definitions.get(node.identifier);
+      const children = renderChildren(node.children, context);
+      return definition ? (
+        <ExternalLink key={key} href={definition.url} title={definition.title}>{children}</ExternalLink>
+      ) : (
+        <React.Fragment key={key}>[{children}]</React.Fragment>
+      );
+    }
+    case 'imageReference': {
+      const definition = context.definitions.get(node.identifier);
+      return definition
+        ? <ImageLink key={key} url={definition.url} alt={node.alt} />
+        : `![${node.alt ?? ''}]`;
+    }
+    case 'footnoteReference':
+      return <sup key={key} className="text-indigo-400">[{node.label ?? node.identifier}]</sup>;
+    case 'footnoteDefinition':
+      return (
+        <div key={key} className="flex gap-2 mt-4 text-sm text-gray-400">
+          <span>{node.label ?? node.identifier}.</span>
+          <div>{renderChildren(node.children, { ...context, tight: true })}</div>
+        </div>
+      );
+    default:
+      // Definitions render where they're used; anything else has no output
+      return null;
+  }
+}
+
+export function Markdown({ root, onAttachOutput, onPreviewCode }: MarkdownProps) {
+  const definitions = useMemo(() => collectDefinitions(root), [root]);
+  const comparisons = useMemo(() => collectComparisons(root), [root]);
+  return <>{renderChildren(root.children, { definitions, comparisons, onAttachOutput, onPreviewCode })}</>;
+}
@@ -0,0 +1,52 @@
+import { useMemo, useState, type MouseEvent } from 'react';
+import katex from 'katex';
+import 'katex/dist/katex.min.css';
+import { Copy, Check } from 'lucide-react';
+
+interface MathFormulaProps {
+  tex: string;
+  // Centered on its own line instead of inline with the text
+  display: boolean;
+}
+
+export function MathFormula({ tex, display }: MathFormulaProps) {
+  const [copied, setCopied] = useState(false);
+
+  // KaTeX escapes the TeX it is given and, with trust off, emits no links or
+  // scripts. Invalid TeX (or a formula still streaming in) is shown in red.
+  const html = useMemo(
+    () => katex.renderToString(tex, { displayMode: display, throwOnError: false }),
+    [tex, display]
+  );
+
+  const handleCopy = async (e: MouseEvent) => {
+    e.stopPropagation();
+    await navigator.clipboard.writeText(tex);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const copyButton = (
+    <button
+      onClick={handleCopy}
+      title={copied ? 'Copied!' : 'Copy TeX'}
+      className={`p-1 rounded bg-white/10 hover:bg-white/20 opacity-0 group-hover:opacity-100 transition ${
+        display ? 'absolute right-2 top-2' : 'absolute -top-6 left-1/2 -translate-x-1/2 z-10'
+      }`}
+    >
+      {copied ? <Check className="w-3 h-3 text-green-400" /> : <Copy className="w-3 h-3 text-gray-400" />}
+    </button>
+  );
+
+  return display ? (
+    <div className="relative group my-4 px-4 py-2 rounded-lg bg-white/[0.03] overflow-x-auto">
+      <div dangerouslySetInnerHTML={{ __html: html }} />
+      {copyButton}
+    </div>
+  ) : (
+    <span className="relative group">
+      <span dangerouslySetInnerHTML={{ __html: html }} />
+      {copyButton}
+    </span>
+  );
+}
@@ -0,0 +1,45 @@
+import { useState, useEffect } from 'react';
+import { ImageOff, Loader2 } from 'lucide-react';
+import { getImageUrl, type ImageAttachment } from '../lib/attachments';
+
+interface MessageImageProps {
+  image: ImageAttachment;
+}
+
+// Thumbnail of an image stored with a message; opens full size in a new tab
+export function MessageImage({ image }: MessageImageProps) {
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    getImageUrl(image.path)
+      .then(signedUrl => !cancelled && setUrl(signedUrl))
+      .catch(() => !cancelled && setFailed(true));
+    return () => {
+      cancelled = true;
+    };
+  }, [image.path]);
+
+  if (failed) {
+    return (
+      <div className="flex items-center justify-center w-32 h-24 rounded-lg bg-black/30 text-gray-500">
+        <ImageOff size={20} />
+      </div>
+    );
+  }
+
+  if (!url) {
+    return (
+      <div className="flex items-center justify-center w-32 h-24 rounded-lg bg-black/30">
+        <Loader2 className="w-5 h-5 text-indigo-400 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <a href={url} target="_blank" rel="noopener noreferrer">
+      <img src={url} alt="Attached image" className="max-h-48 max-w-full rounded-lg object-contain" />
+    </a>
+  );
+}
@@ -1,7 +1,7 @@
 import React from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
-import { LogOut, LayoutDashboard, Brain } from 'lucide-react';
+import { LogOut, LayoutDashboard, Brain, BarChart3 } from 'lucide-react';
 
 export function Navigation() {
   const navigate = useNavigate();
@@ -48,6 +48,13 @@ export function Navigation() {
                   <LayoutDashboard size={18} />
                   <span>Dashboard</span>
                 </Link>
+                <Link
+                  to="/usage"
+                  className="hidden sm:flex items-center gap-2 px-3 py-1.5 rounded-lg text-gray-300 hover:text-white hover:bg-white/5 transition-colors"
+                >
+                  <BarChart3 size={18} />
+                  <span>Usage</span>
+                </Link>
                 <button
                   onClick={handleLogout}
                   className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-red-500/20 border border-red-500/30 text-red-400 hover:bg-red-500/30 transition-colors"
@@ -0,0 +1,56 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Brain, ChevronRight, Loader2 } from 'lucide-react';
+
+interface ReasoningPanelProps {
+  content: string;
+  // False while the model is still reasoning
+  complete: boolean;
+  durationMs?: number | null;
+}
+
+export function ReasoningPanel({ content, complete, durationMs }: ReasoningPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  const label = !complete
+    ? 'Reasoning...'
+    : durationMs != null
+    ? `Reasoned for ${Math.max(1, Math.round(durationMs / 1000))}s`
+    : 'Reasoning';
+
+  return (
+    <div className="mb-3 rounded-lg border border-white/10 bg-black/20">
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          setExpanded(!expanded);
+        }}
+        className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-400 hover:text-gray-200 transition"
+      >
+        <motion.span animate={{ rotate: expanded ? 90 : 0 }} transition={{ duration: 0.2 }}>
+          <ChevronRight size={14} />
+        </motion.span>
+        {complete ? (
+          <Brain size={14} className="text-purple-400" />
+        ) : (
+          <Loader2 size={14} className="text-purple-400 animate-spin" />
+        )}
+        <span>{label}</span>
+      </button>
+      <AnimatePresence initial={false}>
+        {expanded && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            className="overflow-hidden"
+          >
+            <p className="px-4 pb-3 text-sm text-gray-400 whitespace-pre-wrap border-l-2 border-purple-500/30 ml-4">
+              {content}
+            </p>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
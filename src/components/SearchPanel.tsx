@@ -0,0 +1,219 @@
+import { useEffect, useState, type ReactNode } from 'react';
+import { Filter, Loader2, MessageSquare, Search, X } from 'lucide-react';
+import { listProviders } from '../lib/providers';
+import {
+  NO_FILTERS,
+  hasFilters,
+  searchConversations,
+  snippetParts,
+  type SearchFilters,
+  type SearchResult,
+} from '../lib/search';
+
+interface SearchPanelProps {
+  onOpen: (result: SearchResult) => void;
+  // Shown while nothing is being searched for
+  children: ReactNode;
+}
+
+// Waits for typing to pause before querying
+const SEARCH_DELAY_MS = 300;
+
+const inputClassName =
+  'w-full bg-black/30 text-white text-xs rounded px-2 py-1 border border-white/10 focus:outline-none focus:ring-1 focus:ring-indigo-500/50';
+
+function Snippet({ text }: { text: string }) {
+  return (
+    <>
+      {snippetParts(text).map((part, index) =>
+        part.match ? (
+          <mark key={index} className="bg-indigo-500/30 text-white rounded px-0.5">{part.text}</mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+export function SearchPanel({ onOpen, children }: SearchPanelProps) {
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<SearchFilters>(NO_FILTERS);
+  const [showFilters, setShowFilters] = useState(false);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const active = query.trim() !== '';
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults([]);
+      setError(null);
+      return;
+    }
+
+    // Results for an older query may arrive after those for a newer one
+    let current = true;
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const found = await searchConversations(query, filters);
+        if (current) {
+          setResults(found);
+          setError(null);
+        }
+      } catch {
+        if (current) setError('Search failed. Please try again.');
+      } finally {
+        if (current) setSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      current = false;
+      clearTimeout(timer);
+    };
+  }, [query, filters]);
+
+  const setFilter = <K extends keyof SearchFilters>(key: K, value: SearchFilters[K]) =>
+    setFilters(prev => ({ ...prev, [key]: value }));
+
+  return (
+    <div className="flex-1 min-h-0 flex flex-col">
+      <div className="flex items-center gap-1 mb-2">
+        <div className="relative flex-1">
+          <Search size={14} className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-500" />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => e.key === 'Escape' && setQuery('')}
+            placeholder="Search conversations..."
+            className="w-full bg-black/30 text-white text-sm rounded-lg pl-7 pr-7 py-1.5 border border-white/10 focus:outline-none focus:ring-1 focus:ring-indigo-500/50"
+          />
+          {active && (
+            <button
+              onClick={() => setQuery('')}
+              title="Clear search"
+              className="absolute right-1.5 top-1/2 -translate-y-1/2 p-0.5 text-gray-500 hover:text-white transition"
+            >
+              <X size={14} />
+            </button>
+          )}
+        </div>
+        <button
+          onClick={() => setShowFilters(!showFilters)}
+          title="Search filters"
+          className={`p-1.5 rounded-lg transition ${
+            showFilters || hasFilters(filters) ? 'text-indigo-300 bg-indigo-600/20' : 'text-gray-400 hover:text-white hover:bg-white/5'
+          }`}
+        >
+          <Filter size={14} />
+        </button>
+      </div>
+
+      {showFilters && (
+        <div className="mb-2 p-2 space-y-2 rounded-lg bg-black/20 border border-white/10 text-xs text-gray-400">
+          <div className="grid grid-cols-2 gap-2">
+            <label className="space-y-1">
+              <span>From</span>
+              <input
+                type="date"
+                value={filters.from}
+                onChange={(e) => setFilter('from', e.target.value)}
+                className={inputClassName}
+              />
+            </label>
+            <label className="space-y-1">
+              <span>To</span>
+              <input
+                type="date"
+                value={filters.to}
+                onChange={(e) => setFilter('to', e.target.value)}
+                className={inputClassName}
+              />
+            </label>
+          </div>
+          <label className="block space-y-1">
+            <span>Role</span>
+            <select
+              value={filters.role}
+              onChange={(e) => setFilter('role', e.target.value as SearchFilters['role'])}
+              className={inputClassName}
+            >
+              <option value="">Any</option>
+              <option value="user">User</option>
+              <option value="assistant">Assistant</option>
+            </select>
+          </label>
+          <label className="block space-y-1">
+            <span>Model</span>
+            <select
+              value={filters.modelId}
+              onChange={(e) => setFilter('modelId', e.target.value)}
+              className={inputClassName}
+            >
+              <option value="">Any</option>
+              {listProviders().map((provider) => (
+                <optgroup key={provider.id} label={provider.name}>
+                  {provider.models.map((m) => (
+                    <option key={m.id} value={m.id}>{m.name}</option>
+                  ))}
+                </optgroup>
+              ))}
+            </select>
+          </label>
+          {hasFilters(filters) && (
+            <button
+              onClick={() => setFilters(NO_FILTERS)}
+              className="text-indigo-300 hover:text-indigo-200 transition"
+            >
+              Clear filters
+            </button>
+          )}
+        </div>
+      )}
+
+      {active ? (
+        <div className="flex-1 overflow-y-auto space-y-1">
+          {searching && results.length === 0 && (
+            <div className="flex items-center gap-2 px-2 py-3 text-sm text-gray-400">
+              <Loader2 size={14} className="animate-spin" />
+              Searching...
+            </div>
+          )}
+          {error && <div className="px-2 py-3 text-sm text-red-400">{error}</div>}
+          {!searching && !error && results.length === 0 && (
+            <div className="px-2 py-3 text-sm text-gray-500">No matches</div>
+          )}
+          {results.map((result) => (
+            <button
+              key={`${result.conversation_id}:${result.message_id ?? 'title'}`}
+              onClick={() => onOpen(result)}
+              className="w-full text-left px-2 py-2 rounded-lg hover:bg-white/5 transition"
+            >
+              <div className="flex items-center gap-2 text-sm text-white">
+                <MessageSquare size={14} className="shrink-0 text-gray-400" />
+                <span className="truncate">
+                  {result.message_id ? result.conversation_title : <Snippet text={result.snippet} />}
+                </span>
+              </div>
+              <div className="mt-0.5 flex items-center gap-2 text-[11px] text-gray-500">
+                <span className="capitalize">{result.role ?? 'Title'}</span>
+                <span>{new Date(result.created_at).toLocaleDateString()}</span>
+              </div>
+              {result.message_id && (
+                <p className="mt-1 text-xs text-gray-400 line-clamp-3 break-words">
+                  <Snippet text={result.snippet} />
+                </p>
+              )}
+            </button>
+          ))}
+        </div>
+      ) : (
+        children
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { AlertTriangle, ChevronRight, Loader2, Wrench } from 'lucide-react';
+
+interface ToolCallCardProps {
+  name: string;
+  args?: Record<string, unknown>;
+  // JSON returned by the tool; undefined while it is still running
+  result?: string;
+}
+
+function formatJson(json: string): string {
+  try {
+    return JSON.stringify(JSON.parse(json), null, 2);
+  } catch {
+    return json;
+  }
+}
+
+function isError(result: string): boolean {
+  try {
+    const parsed = JSON.parse(result);
+    return typeof parsed === 'object' && parsed !== null && 'error' in parsed;
+  } catch {
+    return false;
+  }
+}
+
+export function ToolCallCard({ name, args, result }: ToolCallCardProps) {
+  const [expanded, setExpanded] = useState(false);
+  const failed = result !== undefined && isError(result);
+
+  return (
+    <div
+      className={`w-full max-w-[80%] rounded-lg border bg-black/20 ${
+        failed ? 'border-red-500/30' : 'border-white/10'
+      }`}
+    >
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-sm text-gray-400 hover:text-gray-200 transition"
+      >
+        <motion.span animate={{ rotate: expanded ? 90 : 0 }} transition={{ duration: 0.2 }}>
+          <ChevronRight size={14} />
+        </motion.span>
+        {result === undefined ? (
+          <Loader2 size={14} className="text-cyan-400 animate-spin" />
+        ) : failed ? (
+          <AlertTriangle size={14} className="text-red-400" />
+        ) : (
+          <Wrench size={14} className="text-cyan-400" />
+        )}
+        <span>
+          {result === undefined ? 'Running' : failed ? 'Failed' : 'Used'} <code className="text-gray-200">{name}</code>
+        </span>
+      </button>
+      <AnimatePresence initial={false}>
+        {expanded && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            className="overflow-hidden"
+          >
+            <div className="px-4 pb-3 space-y-2 text-xs">
+              {args && (
+                <div>
+                  <div className="text-gray-500 mb-1">Arguments</div>
+                  <pre className="p-2 rounded bg-black/30 text-gray-300 overflow-x-auto">
+                    {JSON.stringify(args, null, 2)}
+                  </pre>
+                </div>
+              )}
+              {result !== undefined && (
+                <div>
+                  <div className="text-gray-500 mb-1">Result</div>
+                  <pre className="p-2 rounded bg-black/30 text-gray-300 overflow-x-auto max-h-64">
+                    {formatJson(result)}
+                  </pre>
+                </div>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
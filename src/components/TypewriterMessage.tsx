@@ -1,20 +1,44 @@
 import React, { useState, useEffect } from 'react';
-import { motion } from 'framer-motion';
-import { CodeBlock } from './CodeBlock';
+import { motion, useReducedMotion } from 'framer-motion';
+import { Markdown } from './Markdown';
+import { ReasoningPanel } from './ReasoningPanel';
 import { parseMessage } from '../utils/messageParser';
 
 interface TypewriterMessageProps {
   content: string;
+  // Content is arriving from a live stream: render it as-is, no simulated typing
+  isStreaming?: boolean;
+  // Set to false to show the full message immediately (e.g. a finished stream
+  // or history). Never typed out when the user prefers reduced motion.
+  animate?: boolean;
+  // How long the model spent in its <think> block, if known
+  reasoningMs?: number | null;
+  // Lets runnable code blocks attach their output to the next message
+  onAttachOutput?: (output: string) => void;
+  // Opens html/jsx/tsx blocks in the artifact panel
+  onPreviewCode?: (code: string) => void;
   onComplete?: () => void;
 }
 
-export function TypewriterMessage({ content, onComplete }: TypewriterMessageProps) {
-  const [displayedContent, setDisplayedContent] = useState('');
-  const [currentIndex, setCurrentIndex] = useState(0);
+export function TypewriterMessage({ content, isStreaming = false, animate = true, reasoningMs, onAttachOutput, onPreviewCode, onComplete }: TypewriterMessageProps) {
+  const reduceMotion = useReducedMotion();
+  const isLive = isStreaming || !animate || !!reduceMotion;
+  const [displayedContent, setDisplayedContent] = useState(isLive ? content : '');
+  const [currentIndex, setCurrentIndex] = useState(isLive ? content.length : 0);
   const [isPaused, setIsPaused] = useState(false);
   const [isComplete, setIsComplete] = useState(false);
 
+  // Real tokens are already paced by the network, so just follow the content
   useEffect(() => {
+    if (isLive) {
+      setDisplayedContent(content);
+      setCurrentIndex(content.length);
+    }
+  }, [isLive, content]);
+
+  useEffect(() => {
+    if (isStreaming) return;
+
     if (currentIndex < content.length) {
       const timeout = setTimeout(() => {
         // Check for code block markers
@@ -43,7 +67,7 @@ export function TypewriterMessage({ content, onComplete }: TypewriterMessageProp
       setIsComplete(true);
       onComplete?.();
     }
-  }, [currentIndex, content, isPaused, onComplete]);
+  }, [currentIndex, content, isPaused, isStreaming, onComplete]);
 
   // Handle click to show full message immediately
   const handleClick = () => {
@@ -60,30 +84,35 @@ export function TypewriterMessage({ content, onComplete }: TypewriterMessageProp
 
     const parts = parseMessage(displayedContent);
     return parts.map((part, index) => {
-      if (part.type === 'code') {
+      if (part.type === 'reasoning') {
         return (
-          <div key={index} className="my-4">
-            <CodeBlock code={part.content} language={part.language || 'plaintext'} />
-          </div>
+          <ReasoningPanel
+            key={index}
+            content={part.content}
+            complete={!!part.complete}
+            durationMs={reasoningMs}
+          />
         );
       }
-      return <p key={index} className="whitespace-pre-wrap">{part.content}</p>;
+      return <Markdown key={index} root={part.root} onAttachOutput={onAttachOutput} onPreviewCode={onPreviewCode} />;
     });
   };
 
   return (
     <motion.div
-      initial={{ opacity: 0, y: 10 }}
+      // History appears in place, not sliding in each time it scrolls into view
+      initial={animate ? { opacity: 0, y: 10 } : false}
       animate={{ opacity: 1, y: 0 }}
       onClick={handleClick}
       className="cursor-pointer"
     >
       {renderContent()}
-      {!isComplete && (
+      {(isStreaming || !isComplete) && (
         <motion.span
           initial={{ opacity: 0 }}
-          animate={{ opacity: [0, 1, 0] }}
-          transition={{ repeat: Infinity, duration: 0.6 }}
+          // A steady cursor instead of a blinking one for reduced motion
+          animate={{ opacity: reduceMotion ? 1 : [0, 1, 0] }}
+          transition={reduceMotion ? undefined : { repeat: Infinity, duration: 0.6 }}
           className="inline-block w-2 h-4 bg-indigo-400 ml-1"
         />
       )}
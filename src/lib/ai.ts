@@ -1,63 +1,469 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { readServerSentEvents } from './sse';
+import { fitToTokenBudget, estimateTokens, type ChatMessage, type ChatImage, type ToolCall } from './context';
+import {
+  getProvider,
+  getModelInfo,
+  type GenerationParams,
+  type TokenUsage,
+  type ToolDefinition,
+  type ToolCallDelta,
+  type JsonSchema,
+} from './providers';
+import { validateJson } from './jsonSchema';
+import { cacheKey, readCache, writeCache, type CacheOptions, type CachedResponse } from './responseCache';
+import { stripReasoning } from '../utils/messageParser';
+import {
+  ProviderError,
+  RateLimitError,
+  RequestTimeoutError,
+  MalformedResponseError,
+  NetworkError,
+  SchemaValidationError,
+  abortError,
+  errorFromResponse,
+  sleep,
+} from './errors';
 
-const OPENROUTER_API_KEY = 'use yor api key';
-const GEMINI_API_KEY = 'use your api key';
-
-const openRouterModels = [
-  { id: 'deepseek/deepseek-r1-distill-llama-70b:free', name: 'DeepSeek 70B' },
-] as const;
+export type AIModel = {
+  provider: string;
+  modelId: string;
+};
 
-const geminiModels = [
-  { id: 'gemini-2.0-flash', name: 'Gemini Flash' }
-] as const;
+export type { ChatMessage, ChatImage, GenerationParams, TokenUsage, ToolCall, ToolDefinition, JsonSchema };
 
-export type AIModel = {
-  provider: 'openrouter' | 'gemini';
-  modelId: typeof openRouterModels[number]['id'] | typeof geminiModels[number]['id'];
+export const DEFAULT_MODEL: AIModel = {
+  provider: 'openrouter',
+  modelId: 'deepseek/deepseek-r1-distill-llama-70b:free'
 };
 
-export async function generateAIResponse(message: string, model: AIModel): Promise<string> {
+export interface GenerateOptions {
+  systemPrompt?: string;
+  params?: GenerationParams;
+  // Offered to models that support function calling
+  tools?: ToolDefinition[];
+  // Constrains the reply to JSON matching this schema, where the provider can
+  responseSchema?: JsonSchema;
+  // Models to try, in order, when the requested model fails
+  fallbacks?: AIModel[];
+  // Reuse an earlier reply to the same request; replies aren't cached without it
+  cache?: CacheOptions;
+  // Cancels the request; the returned promise or stream rejects with an AbortError
+  signal?: AbortSignal;
+  // Called once the reply is complete
+  onComplete?: (info: ResponseInfo) => void;
+}
+
+export interface ResponseInfo {
+  // The model that produced the reply, which may be one of the fallbacks
+  model: AIModel;
+  // Token counts as reported by the provider, if it reports them; none for
+  // a cached reply, which cost nothing
+  usage?: TokenUsage;
+  // Time from sending the request to receiving the last token
+  latencyMs: number;
+  // Tools the model wants run before it continues
+  toolCalls?: ToolCall[];
+  // The reply came from the response cache, not the provider
+  cached?: boolean;
+}
+
+// Time allowed until the provider starts responding (streams may run longer)
+const REQUEST_TIMEOUT_MS = 60000;
+const MAX_RETRIES = 2;
+const BASE_RETRY_DELAY_MS = 1000;
+// Replies requested before giving up on JSON that matches the schema
+const MAX_JSON_ATTEMPTS = 3;
+
+// Text-only models get the OCR text of attached images instead of the images
+function withImageFallback(message: ChatMessage): ChatMessage {
+  if (!message.images?.length) return message;
+
+  const imageText = message.images
+    .filter(image => image.fallbackText)
+    .map(image => `TEXT:\n${image.fallbackText}`)
+    .join('\n\n');
+
+  return {
+    role: message.role,
+    content: imageText ? `${message.content}\n\nImage Question is:\n${imageText}` : message.content,
+  };
+}
+
+// Tokens left for the history once the system prompt and room for the reply
+// are taken out of the model's context window
+export function historyBudget(model: AIModel, options: GenerateOptions = {}): number {
+  const { contextWindow, reservedOutputTokens } = getModelInfo(model.provider, model.modelId);
+  const outputTokens = options.params?.maxTokens ?? reservedOutputTokens;
+  const systemTokens = options.systemPrompt ? estimateTokens(options.systemPrompt) : 0;
+  return contextWindow - outputTokens - systemTokens;
+}
+
+// Models without function calling (e.g. a fallback) see earlier tool results as plain text
+function withToolFallback(message: ChatMessage): ChatMessage {
+  if (message.role === 'tool') {
+    return { role: 'user', content: `Result of the ${message.toolName} tool:\n${message.content}` };
+  }
+  if (message.toolCalls) {
+    const { toolCalls, ...rest } = message;
+    const calls = toolCalls.map(call => `${call.name}(${JSON.stringify(call.arguments)})`).join(', ');
+    return { ...rest, content: [message.content, `Called tools: ${calls}`].filter(Boolean).join('\n\n') };
+  }
+  return message;
+}
+
+// Drops the oldest turns until the history fits the model's context window
+export function prepareHistory(history: ChatMessage[], model: AIModel, options: GenerateOptions = {}): ChatMessage[] {
+  const { supportsImages, supportsTools } = getModelInfo(model.provider, model.modelId);
+  let messages = supportsImages ? history : history.map(withImageFallback);
+  if (!supportsTools) messages = messages.map(withToolFallback);
+  return fitToTokenBudget(messages, historyBudget(model, options));
+}
+
+interface PartialToolCall {
+  id: string;
+  name: string;
+  // JSON, possibly still incomplete
+  arguments: string;
+}
+
+// Assembles tool calls from streamed fragments. `open` maps a stream index to
+// the call its fragments belong to.
+function collectToolCalls(calls: PartialToolCall[], open: Map<number, PartialToolCall>, deltas: ToolCallDelta[]) {
+  for (const delta of deltas) {
+    let call = open.get(delta.index);
+    if (!call || (delta.id && delta.id !== call.id)) {
+      call = { id: delta.id ?? `call_${calls.length}`, name: '', arguments: '' };
+      calls.push(call);
+      open.set(delta.index, call);
+    }
+    call.name = delta.name ?? call.name;
+    call.arguments += delta.arguments ?? '';
+  }
+}
+
+// Retries transient provider errors with exponential backoff and jitter
+async function withRetry<T>(operation: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (signal?.aborted || !(error instanceof ProviderError) || !error.retryable || attempt >= MAX_RETRIES) {
+        throw error;
+      }
+
+      const delay = error instanceof RateLimitError && error.retryAfterMs !== undefined
+        ? error.retryAfterMs
+        : BASE_RETRY_DELAY_MS * 2 ** attempt + Math.random() * BASE_RETRY_DELAY_MS;
+      console.warn(`Retrying ${error.providerId} in ${Math.round(delay)}ms:`, error.message);
+      await sleep(delay, signal);
+    }
+  }
+}
+
+async function sendRequest(history: ChatMessage[], model: AIModel, options: GenerateOptions, stream: boolean) {
+  const { signal } = options;
+  const provider = getProvider(model.provider);
+  const { url, init } = provider.buildRequest({
+    modelId: model.modelId,
+    history: prepareHistory(history, model, options),
+    systemPrompt: options.systemPrompt || undefined,
+    params: options.params,
+    tools: getModelInfo(model.provider, model.modelId).supportsTools ? options.tools : undefined,
+    responseSchema: provider.capabilities.structuredOutput ? options.responseSchema : undefined,
+    stream,
+  });
+
+  // One controller for both the caller's signal and the response timeout;
+  // the caller's signal keeps aborting the body while a stream is being read
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  if (signal?.aborted) throw abortError();
+  signal?.addEventListener('abort', abort, { once: true });
+  const timeout = setTimeout(abort, REQUEST_TIMEOUT_MS);
+
+  let response: Response;
   try {
-    if (model.provider === 'openrouter') {
-      const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
-          'HTTP-Referer': window.location.origin,
-          'X-Title': 'Neural Core AI',
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          model: model.modelId,
-          messages: [{ role: 'user', content: message }]
-        })
-      });
+    response = await (provider.fetch ?? fetch)(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    signal?.removeEventListener('abort', abort);
+    if (signal?.aborted) throw abortError();
+    if (controller.signal.aborted) {
+      throw new RequestTimeoutError(provider.id, REQUEST_TIMEOUT_MS);
+    }
+    throw new NetworkError(provider.id, error);
+  } finally {
+    clearTimeout(timeout);
+  }
 
-      const data = await response.json();
-      return data.choices[0].message.content;
-    } else {
-      const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${model.modelId}:generateContent?key=${GEMINI_API_KEY}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          contents: [{
-            parts: [{ text: message }]
-          }]
-        })
-      });
+  if (!response.ok) {
+    throw errorFromResponse(provider.id, response);
+  }
+  return response;
+}
 
-      const data = await response.json();
-      return data.candidates[0].content.parts[0].text;
+function completeFromModel(history: ChatMessage[], model: AIModel, options: GenerateOptions) {
+  const { signal } = options;
+  const provider = getProvider(model.provider);
+
+  return withRetry(async () => {
+    const response = await sendRequest(history, model, options, false);
+    let data: unknown;
+    try {
+      data = await response.json();
+    } catch (error) {
+      if (signal?.aborted) throw abortError();
+      throw new MalformedResponseError(provider.id, error);
+    }
+    try {
+      return provider.parseResponse(data);
+    } catch (error) {
+      throw new MalformedResponseError(provider.id, error);
+    }
+  }, signal);
+}
+
+interface StreamResult {
+  usage?: TokenUsage;
+  toolCalls?: ToolCall[];
+}
+
+// Yields text deltas; usage and tool calls reported along the way are written to `result`
+async function* streamFromModel(
+  history: ChatMessage[],
+  model: AIModel,
+  options: GenerateOptions,
+  result: StreamResult
+): AsyncGenerator<string> {
+  const { signal } = options;
+  const provider = getProvider(model.provider);
+
+  // Providers without streaming deliver the whole reply as a single chunk
+  if (!provider.capabilities.streaming) {
+    const { text, usage, toolCalls } = await completeFromModel(history, model, options);
+    result.usage = usage;
+    result.toolCalls = toolCalls;
+    if (text) yield text;
+    return;
+  }
+
+  const response = await withRetry(() => sendRequest(history, model, options, true), signal);
+  const toolCalls: PartialToolCall[] = [];
+  const openToolCalls = new Map<number, PartialToolCall>();
+
+  try {
+    for await (const event of readServerSentEvents(response)) {
+      if (event === '[DONE]') break;
+
+      let data: unknown;
+      try {
+        data = JSON.parse(event);
+      } catch (error) {
+        throw new MalformedResponseError(provider.id, error);
+      }
+
+      const { text, usage, toolCallDeltas } = provider.parseStreamEvent(data);
+      if (usage) result.usage = usage;
+      if (toolCallDeltas) collectToolCalls(toolCalls, openToolCalls, toolCallDeltas);
+      if (text) yield text;
     }
   } catch (error) {
-    console.error('AI Response Error:', error);
-    return 'I apologize, but I encountered an error processing your request. Please try again.';
+    if (signal?.aborted) throw abortError();
+    throw error instanceof ProviderError ? error : new NetworkError(provider.id, error);
+  }
+
+  try {
+    if (toolCalls.length > 0) {
+      result.toolCalls = toolCalls.map(call => ({
+        id: call.id,
+        name: call.name,
+        arguments: call.arguments ? JSON.parse(call.arguments) : {},
+      }));
+    }
+  } catch (error) {
+    throw new MalformedResponseError(provider.id, error);
+  }
+}
+
+function modelChain(model: AIModel, fallbacks: AIModel[] = []): AIModel[] {
+  const chain = [model];
+  for (const fallback of fallbacks) {
+    if (!chain.some(m => m.provider === fallback.provider && m.modelId === fallback.modelId)) {
+      chain.push(fallback);
+    }
+  }
+  return chain;
+}
+
+// Looks the request up when caching is on. `key` is where the reply is stored;
+// only replies from the requested model are, not those of a fallback.
+async function checkCache(history: ChatMessage[], model: AIModel, options: GenerateOptions) {
+  if (!options.cache) return null;
+  const key = await cacheKey(history, model, options);
+  const hit = await readCache(key, options.cache);
+  const store = (response: CachedResponse) => void writeCache(key, response, options.cache!);
+  return { hit, store };
+}
+
+function cachedInfo(hit: CachedResponse, startedAt: number): ResponseInfo {
+  return {
+    model: hit.model,
+    latencyMs: performance.now() - startedAt,
+    toolCalls: hit.toolCalls,
+    cached: true,
+  };
+}
+
+// `history` is the ordered conversation, oldest first, ending with the new user message.
+// Throws a ProviderError when the model and all of its fallbacks fail.
+export async function generateAIResponse(history: ChatMessage[], model: AIModel, options: GenerateOptions = {}): Promise<string> {
+  const lookupStartedAt = performance.now();
+  const cache = await checkCache(history, model, options);
+  if (cache?.hit) {
+    options.onComplete?.(cachedInfo(cache.hit, lookupStartedAt));
+    return cache.hit.text;
+  }
+
+  const chain = modelChain(model, options.fallbacks);
+
+  for (let i = 0; ; i++) {
+    const startedAt = performance.now();
+    try {
+      const { text, usage, toolCalls } = await completeFromModel(history, chain[i], options);
+      if (i === 0) cache?.store({ text, model: chain[i], usage, toolCalls });
+      options.onComplete?.({ model: chain[i], usage, latencyMs: performance.now() - startedAt, toolCalls });
+      return text;
+    } catch (error) {
+      if (options.signal?.aborted || i === chain.length - 1) throw error;
+      console.warn(`${chain[i].modelId} failed, falling back to ${chain[i + 1].modelId}:`, error);
+    }
   }
 }
 
-export const availableModels = {
-  openrouter: openRouterModels,
-  gemini: geminiModels,
-};
\ No newline at end of file
+// Streams the response as text deltas while the provider is still generating.
+// Concatenating every yielded chunk gives the full reply; tool calls are
+// reported through onComplete. Falls back to the next model only if the
+// failing one has not produced any output yet.
+export async function* streamAIResponse(history: ChatMessage[], model: AIModel, options: GenerateOptions = {}): AsyncGenerator<string> {
+  const lookupStartedAt = performance.now();
+  const cache = await checkCache(history, model, options);
+  if (cache?.hit) {
+    // A cached reply arrives in one piece
+    if (cache.hit.text) yield cache.hit.text;
+    options.onComplete?.(cachedInfo(cache.hit, lookupStartedAt));
+    return;
+  }
+
+  const chain = modelChain(model, options.fallbacks);
+
+  for (let i = 0; ; i++) {
+    const startedAt = performance.now();
+    const result: StreamResult = {};
+    let started = false;
+    let text = '';
+    try {
+      for await (const delta of streamFromModel(history, chain[i], options, result)) {
+        started = true;
+        text += delta;
+        yield delta;
+      }
+      if (i === 0) cache?.store({ text, model: chain[i], usage: result.usage, toolCalls: result.toolCalls });
+      options.onComplete?.({
+        model: chain[i],
+        usage: result.usage,
+        latencyMs: performance.now() - startedAt,
+        toolCalls: result.toolCalls,
+      });
+      return;
+    } catch (error) {
+      if (options.signal?.aborted || started || i === chain.length - 1) throw error;
+      console.warn(`${chain[i].modelId} failed, falling back to ${chain[i + 1].modelId}:`, error);
+    }
+  }
+}
+
+// Models often wrap JSON in a Markdown fence even when asked not to
+function parseJsonReply(reply: string): unknown {
+  const text = stripReasoning(reply).trim();
+  const fenced = text.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  return JSON.parse(fenced ? fenced[1] : text);
+}
+
+// The value a reply holds, and how it fails the schema if it does
+function checkJsonReply(reply: string, schema: JsonSchema): { data?: unknown; problems: string[] } {
+  try {
+    const data = parseJsonReply(reply);
+    return { data, problems: validateJson(schema, data) };
+  } catch (error) {
+    return { problems: [`The reply is not valid JSON (${error instanceof Error ? error.message : error})`] };
+  }
+}
+
+// Asks for JSON matching `schema` and validates the reply. Invalid replies are
+// sent back with the problems found, up to MAX_JSON_ATTEMPTS requests in total.
+// `text` is the validated value, pretty-printed. onComplete reports the usage
+// and latency of all attempts together. With caching on, only a reply that
+// passes validation is cached, so an invalid one is never replayed.
+export async function generateStructuredResponse(
+  history: ChatMessage[],
+  model: AIModel,
+  schema: JsonSchema,
+  options: GenerateOptions = {}
+): Promise<{ data: unknown; text: string }> {
+  const startedAt = performance.now();
+  let last: ResponseInfo | undefined;
+  let promptTokens = 0;
+  let completionTokens = 0;
+
+  const instruction = `Reply with only a JSON value, without any other text, that matches this JSON Schema:\n${JSON.stringify(schema)}`;
+  const { cache: cacheOptions, ...requestOptions } = options;
+  const attemptOptions: GenerateOptions = {
+    ...requestOptions,
+    systemPrompt: options.systemPrompt ? `${options.systemPrompt}\n\n${instruction}` : instruction,
+    responseSchema: schema,
+    onComplete: (info) => {
+      last = info;
+      promptTokens += info.usage?.promptTokens ?? 0;
+      completionTokens += info.usage?.completionTokens ?? 0;
+    },
+  };
+
+  const cache = await checkCache(history, model, { ...attemptOptions, cache: cacheOptions });
+  if (cache?.hit) {
+    // Entries written before replies were validated first may not pass
+    const { data, problems } = checkJsonReply(cache.hit.text, schema);
+    if (problems.length === 0) {
+      options.onComplete?.(cachedInfo(cache.hit, startedAt));
+      return { data, text: JSON.stringify(data, null, 2) };
+    }
+  }
+
+  let problems: string[] = [];
+  const attempts = [...history];
+
+  for (let attempt = 0; attempt < MAX_JSON_ATTEMPTS; attempt++) {
+    const reply = await generateAIResponse(attempts, model, attemptOptions);
+
+    const checked = checkJsonReply(reply, schema);
+    problems = checked.problems;
+    if (problems.length === 0) {
+      const usage = last?.usage && { promptTokens, completionTokens };
+      // As elsewhere, a fallback model's reply isn't stored for the requested one
+      if (last?.model.provider === model.provider && last.model.modelId === model.modelId) {
+        cache?.store({ text: reply, model, usage });
+      }
+      options.onComplete?.({
+        model: last?.model ?? model,
+        usage,
+        latencyMs: performance.now() - startedAt,
+      });
+      return { data: checked.data, text: JSON.stringify(checked.data, null, 2) };
+    }
+
+    attempts.push(
+      { role: 'assistant', content: stripReasoning(reply) },
+      { role: 'user', content: `That reply does not match the schema:\n- ${problems.join('\n- ')}\nReply again with only the corrected JSON.` }
+    );
+  }
+
+  throw new SchemaValidationError(last?.model.provider ?? model.provider, problems);
+}
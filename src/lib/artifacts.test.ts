@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { buildPreviewDocument, collectArtifacts } from './artifacts';
+
+const reply = (id: string, content: string) => ({ id, role: 'assistant', content, created_at: `2026-01-01T00:00:0${id}Z` });
+
+describe('collectArtifacts', () => {
+  it('groups revisions of the same page or component', () => {
+    const artifacts = collectArtifacts([
+      reply('1', '```html\n<title>Todo</title><p>v1</p>\n```\n```tsx\nexport default function Counter() { return <b>1</b>; }\n```'),
+      { id: '2', role: 'user', content: '```html\n<title>Todo</title>\n```', created_at: '2026-01-01T00:00:02Z' },
+      reply('3', 'Updated:\n```html\n<title>Todo</title><p>v2</p>\n```'),
+      reply('4', 'Same again:\n```html\n<title>Todo</title><p>v2</p>\n```\n```js\nconsole.log(1)\n```'),
+    ]);
+
+    expect(artifacts.map(a => [a.id, a.versions.map(v => v.messageId)])).toEqual([
+      ['html:Todo', ['1', '3']],
+      ['react:Counter', ['1']],
+    ]);
+  });
+});
+
+describe('buildPreviewDocument', () => {
+  it('adds a content security policy that blocks the network', async () => {
+    const html = await buildPreviewDocument('html', 'Page', 'html', '<html><head><title>x</title></head><body></body></html>');
+    expect(html).toMatch(/<head><meta http-equiv="Content-Security-Policy" content="default-src 'none'/);
+  });
+
+  it('puts the policy in a head of its own for body-only snippets', async () => {
+    const html = await buildPreviewDocument('html', 'Page', 'html', '<header><h1>Hi</h1></header><main></main>');
+    expect(html).toMatch(/^<!DOCTYPE html><html><head><meta http-equiv="Content-Security-Policy"/);
+    expect(html).toContain('<body><header><h1>Hi</h1></header>');
+  });
+
+  it('inlines React and mounts the component', async () => {
+    const html = await buildPreviewDocument('react', 'Counter', 'tsx', 'export default function Counter(): JSX.Element { return <b>1</b>; }');
+    expect(html).toContain('React.createElement');
+    expect(html).toContain('createRoot');
+    expect(html).not.toContain('JSX.Element');
+    expect(html).not.toMatch(/<script[^>]+src=/);
+  });
+});
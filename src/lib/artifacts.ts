@@ -0,0 +1,172 @@
+import { transform } from 'sucrase';
+import { messageCodeBlocks } from '../utils/messageParser';
+
+export type ArtifactKind = 'html' | 'react';
+
+export interface ArtifactVersion {
+  // The message whose code block holds this version
+  messageId: string;
+  createdAt: string;
+  language: string;
+  code: string;
+}
+
+// A page or component the assistant wrote, with every revision of it
+export interface Artifact {
+  // Stable across revisions: the kind plus the page title or component name
+  id: string;
+  title: string;
+  kind: ArtifactKind;
+  versions: ArtifactVersion[];
+}
+
+interface ArtifactSource {
+  id: string;
+  role: string;
+  content: string;
+  created_at: string;
+}
+
+const KINDS: Record<string, ArtifactKind> = {
+  html: 'html',
+  jsx: 'react',
+  tsx: 'react',
+};
+
+export function artifactKind(language: string | null | undefined): ArtifactKind | null {
+  return KINDS[language?.toLowerCase() ?? ''] ?? null;
+}
+
+// The name that identifies revisions of the same artifact: the page's <title>
+// or the component's name. Falls back to a generic name, so an untitled page
+// revised in a later answer is still recognised as the same one.
+function artifactName(kind: ArtifactKind, code: string): string {
+  if (kind === 'html') {
+    return code.match(/<title>([^<]*)<\/title>/i)?.[1].trim() || 'Page';
+  }
+  const component =
+    code.match(/export\s+default\s+(?:function|class)\s+([A-Z]\w*)/) ??
+    code.match(/export\s+default\s+([A-Z]\w*)\s*;?\s*$/m) ??
+    code.match(/(?:function|class)\s+([A-Z]\w*)/) ??
+    code.match(/const\s+([A-Z]\w*)\s*=/);
+  return component?.[1] ?? 'Component';
+}
+
+// Every html/jsx/tsx block in the assistant's replies, grouped into
+// artifacts in order of first appearance, with versions oldest first.
+// A block identical to the previous version isn't a new version.
+export function collectArtifacts(messages: ArtifactSource[]): Artifact[] {
+  const artifacts = new Map<string, Artifact>();
+
+  for (const message of messages) {
+    if (message.role !== 'assistant') continue;
+
+    for (const block of messageCodeBlocks(message)) {
+      const kind = artifactKind(block.lang);
+      if (!kind || !block.value.trim()) continue;
+
+      const title = artifactName(kind, block.value);
+      const id = `${kind}:${title}`;
+      let artifact = artifacts.get(id);
+      if (!artifact) {
+        artifact = { id, title, kind, versions: [] };
+        artifacts.set(id, artifact);
+      }
+      if (artifact.versions[artifact.versions.length - 1]?.code === block.value) continue;
+
+      artifact.versions.push({
+        messageId: message.id,
+        createdAt: message.created_at,
+        language: block.lang!.toLowerCase(),
+        code: block.value,
+      });
+    }
+  }
+
+  return Array.from(artifacts.values());
+}
+
+// Blocks every request the preview could make: no fetches, no remote scripts,
+// styles, images or fonts, no form posts. Inline code and data: URLs still work.
+const CONTENT_SECURITY_POLICY = [
+  "default-src 'none'",
+  "script-src 'unsafe-inline'",
+  "style-src 'unsafe-inline'",
+  'img-src data: blob:',
+  'font-src data:',
+  'media-src data: blob:',
+  "form-action 'none'",
+].join('; ');
+
+const CSP_META = `<meta http-equiv="Content-Security-Policy" content="${CONTENT_SECURITY_POLICY}">`;
+
+// Shows uncaught errors in the preview itself, where they can be seen
+const ERROR_OVERLAY = `<script>
+window.addEventListener('error', function (event) {
+  var pre = document.createElement('pre');
+  pre.style.cssText = 'color:#b91c1c;background:#fef2f2;padding:12px;margin:0;white-space:pre-wrap;font:12px monospace';
+  pre.textContent = event.message;
+  (document.body || document.documentElement).prepend(pre);
+});
+</script>`;
+
+// Inline scripts end at the first </script, wherever it appears
+function inlineScript(code: string): string {
+  return `<script>${code.replace(/<\/script/gi, '<\\/script')}</script>`;
+}
+
+function htmlDocument(code: string): string {
+  const head = `${CSP_META}${ERROR_OVERLAY}`;
+  // The tag names end at a space or `>`, so `<header>` is not taken for `<head>`
+  const headTag = /<head(?:\s[^>]*)?>/i;
+  const htmlTag = /<html(?:\s[^>]*)?>/i;
+  if (headTag.test(code)) return code.replace(headTag, match => match + head);
+  if (htmlTag.test(code)) return code.replace(htmlTag, match => `${match}<head>${head}</head>`);
+  return `<!DOCTYPE html><html><head>${head}</head><body>${code}</body></html>`;
+}
+
+// React and ReactDOM are inlined rather than fetched, since the preview has
+// no network. Loaded only when a component is first previewed. The UMD
+// builds are gone in React 19, so an upgrade needs another bundle here.
+let reactRuntime: Promise<string> | null = null;
+
+function loadReactRuntime(): Promise<string> {
+  reactRuntime ??= Promise.all([
+    import('react/umd/react.production.min.js?raw'),
+    import('react-dom/umd/react-dom.production.min.js?raw'),
+  ]).then(([react, reactDom]) => inlineScript(react.default) + inlineScript(reactDom.default));
+  return reactRuntime;
+}
+
+async function reactDocument(title: string, language: string, source: string): Promise<string> {
+  const { code } = transform(source, {
+    transforms: language === 'tsx' ? ['typescript', 'jsx', 'imports'] : ['jsx', 'imports'],
+    production: true,
+  });
+
+  // `require` only knows React; anything else the component imports isn't
+  // available offline
+  const mount = `
+var modules = { react: React, 'react-dom': ReactDOM, 'react-dom/client': ReactDOM };
+var module = { exports: {} };
+var exports = module.exports;
+function require(name) {
+  if (name in modules) return modules[name];
+  throw new Error('"' + name + '" is not available in the preview');
+}
+${code}
+var __Preview = module.exports.default || (typeof ${title} !== 'undefined' ? ${title} : null);
+if (!__Preview) throw new Error('No component to render: export one as default');
+ReactDOM.createRoot(document.getElementById('root')).render(React.createElement(__Preview));
+`;
+
+  return `<!DOCTYPE html><html><head>${CSP_META}${ERROR_OVERLAY}</head><body><div id="root"></div>${
+    await loadReactRuntime()
+  }${inlineScript(mount)}</body></html>`;
+}
+
+// A complete HTML document for the preview iframe. `title` is the
+// component's name for React artifacts.
+export async function buildPreviewDocument(kind: ArtifactKind, title: string, language: string, code: string): Promise<string> {
+  return kind === 'html' ? htmlDocument(code) : reactDocument(title, language, code);
+}
@@ -0,0 +1,81 @@
+import { v4 as uuidv4 } from 'uuid';
+import { supabase } from './supabase';
+import type { ChatImage } from './context';
+
+// Images are stored privately, one folder per user
+const BUCKET = 'message-images';
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+export interface ImageAttachment {
+  type: 'image';
+  path: string;
+  mime_type: string;
+  // OCR text, sent instead of the image to models without vision support
+  ocr_text?: string;
+}
+
+export type MessageAttachment = ImageAttachment;
+
+const imageData = new Map<string, Promise<string>>();
+const imageUrls = new Map<string, Promise<string>>();
+
+function toBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1] ?? '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+export async function uploadImage(userId: string, image: Blob, ocrText?: string): Promise<ImageAttachment> {
+  const path = `${userId}/${uuidv4()}`;
+  const { error } = await supabase.storage.from(BUCKET).upload(path, image, { contentType: image.type });
+  if (error) throw error;
+
+  // The upload is already in memory, no need to download it again when sending
+  imageData.set(path, toBase64(image));
+  return { type: 'image', path, mime_type: image.type, ocr_text: ocrText };
+}
+
+// Base64 image contents, downloaded once per session
+export function loadImageData(path: string): Promise<string> {
+  let data = imageData.get(path);
+  if (!data) {
+    data = supabase.storage.from(BUCKET).download(path).then(({ data, error }) => {
+      if (error || !data) throw error ?? new Error(`Image ${path} not found`);
+      return toBase64(data);
+    });
+    data.catch(() => imageData.delete(path));
+    imageData.set(path, data);
+  }
+  return data;
+}
+
+// Short-lived URL for displaying a stored image
+export function getImageUrl(path: string): Promise<string> {
+  let url = imageUrls.get(path);
+  if (!url) {
+    url = supabase.storage.from(BUCKET).createSignedUrl(path, SIGNED_URL_TTL_SECONDS).then(({ data, error }) => {
+      if (error || !data) throw error ?? new Error(`Image ${path} not found`);
+      return data.signedUrl;
+    });
+    url.catch(() => imageUrls.delete(path));
+    imageUrls.set(path, url);
+  }
+  return url;
+}
+
+// Images that can no longer be downloaded are left out rather than failing the request
+export async function toChatImages(attachments: MessageAttachment[] = []): Promise<ChatImage[]> {
+  const images = attachments.filter(attachment => attachment.type === 'image');
+  const loaded = await Promise.all(images.map(async (image): Promise<ChatImage | null> => {
+    try {
+      return { mimeType: image.mime_type, data: await loadImageData(image.path), fallbackText: image.ocr_text };
+    } catch (error) {
+      console.error('Error loading image:', error);
+      return null;
+    }
+  }));
+  return loaded.filter((image): image is ChatImage => image !== null);
+}
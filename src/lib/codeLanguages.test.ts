@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { detectLanguage, prismLanguage } from './codeLanguages';
+
+describe('prismLanguage', () => {
+  it('maps fence tags to Prism grammars', () => {
+    expect(prismLanguage('ts')).toBe('typescript');
+    expect(prismLanguage('Dockerfile')).toBe('docker');
+    expect(prismLanguage('yml')).toBe('yaml');
+    expect(prismLanguage('go')).toBe('go');
+    expect(prismLanguage('html')).toBe('markup');
+    expect(prismLanguage('no-such-language')).toBe('text');
+  });
+});
+
+describe('detectLanguage', () => {
+  it.each([
+    ['{ "name": "app", "private": true }', 'json'],
+    ['@@ -1,2 +1,2 @@\n-old\n+new', 'diff'],
+    ['def greet(name):\n    print(f"Hello {name}")', 'python'],
+    ['package main\n\nfunc main() {\n\tfmt.Println("hi")\n}', 'go'],
+    ['fn main() {\n    let mut total = 0;\n}', 'rust'],
+    ['interface User {\n  name: string;\n}', 'typescript'],
+    ['const App = () => <div>Hello</div>;\nconst n: number = 1;', 'tsx'],
+    ['const total = items.reduce((a, b) => a + b, 0);', 'javascript'],
+    ['SELECT id, name\nFROM users\nWHERE active;', 'sql'],
+    ['FROM node:20\nWORKDIR /app\nRUN npm ci', 'dockerfile'],
+    ['$ npm install\n$ npm run dev', 'bash'],
+    ['services:\n  web:\n    image: nginx', 'yaml'],
+    ['.card {\n  color: red;\n}', 'css'],
+    ['Just some notes about the plan.', 'plaintext'],
+  ])('recognises %j', (code, language) => {
+    expect(detectLanguage(code)).toBe(language);
+  });
+});
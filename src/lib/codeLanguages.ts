@@ -0,0 +1,126 @@
+import { PrismAsyncLight } from 'react-syntax-highlighter';
+
+// Every grammar the highlighter can load; the list is missing from its type
+// declarations
+const SUPPORTED = new Set((PrismAsyncLight as unknown as { supportedLanguages: string[] }).supportedLanguages);
+
+// Fence tags that name a Prism grammar by another name
+const ALIASES: Record<string, string> = {
+  js: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  node: 'javascript',
+  ts: 'typescript',
+  mts: 'typescript',
+  py: 'python',
+  python3: 'python',
+  rb: 'ruby',
+  rs: 'rust',
+  golang: 'go',
+  sh: 'bash',
+  shell: 'bash',
+  zsh: 'bash',
+  console: 'bash',
+  terminal: 'bash',
+  ps1: 'powershell',
+  pwsh: 'powershell',
+  bat: 'batch',
+  cmd: 'batch',
+  yml: 'yaml',
+  dockerfile: 'docker',
+  containerfile: 'docker',
+  html: 'markup',
+  xml: 'markup',
+  svg: 'markup',
+  vue: 'markup',
+  'c++': 'cpp',
+  cc: 'cpp',
+  h: 'c',
+  hpp: 'cpp',
+  cs: 'csharp',
+  'c#': 'csharp',
+  'f#': 'fsharp',
+  kt: 'kotlin',
+  kts: 'kotlin',
+  objc: 'objectivec',
+  md: 'markdown',
+  tex: 'latex',
+  tf: 'hcl',
+  terraform: 'hcl',
+  proto: 'protobuf',
+  make: 'makefile',
+  jsonc: 'json',
+  patch: 'diff',
+  gql: 'graphql',
+  ex: 'elixir',
+  exs: 'elixir',
+  erl: 'erlang',
+  hs: 'haskell',
+  ml: 'ocaml',
+  pl: 'perl',
+  text: 'text',
+  txt: 'text',
+  plaintext: 'text',
+  plain: 'text',
+};
+
+// The Prism grammar to highlight a fence with, loaded on first use. Unknown
+// tags fall back to plain text.
+export function prismLanguage(language: string): string {
+  const tag = language.toLowerCase();
+  const name = ALIASES[tag] ?? tag;
+  return SUPPORTED.has(name) ? name : 'text';
+}
+
+const JSX = /return\s*\(?\s*<[A-Za-z]|=>\s*\(?\s*<[A-Za-z][\s\S]*\/?>/;
+
+// Checked in order; the first whose pattern matches wins. Distinctive
+// syntax comes first, so a TypeScript snippet isn't taken for JavaScript and
+// a Python one with a SQL string isn't taken for SQL.
+const DETECTORS: [string, RegExp][] = [
+  ['diff', /^(?:diff --git |--- \S.*\n\+\+\+ \S|@@ -\d+(?:,\d+)? \+\d+(?:,\d+)? @@)/m],
+  ['html', /^\s*<(?:!DOCTYPE html|html|head|body|div|section|main|p|ul|table|form)[\s>]/i],
+  ['php', /^\s*<\?php/],
+  ['xml', /^\s*<\?xml /],
+  ['dockerfile', /^FROM \S+(?:\s+AS \w+)?\s*$[\s\S]*^(?:RUN|COPY|CMD|ENTRYPOINT|WORKDIR) /m],
+  ['bash', /^#!\/(?:usr\/)?bin\/(?:env )?(?:ba|z)?sh|^\$ \S|^(?:sudo |apt(?:-get)? install |brew |npm (?:i|install|run) |pip3? install |cd |export \w+=)/m],
+  ['rust', /\bfn \w+(?:<[^>]*>)?\(|\blet mut \b|\bimpl(?:<[^>]*>)? \w+|\buse (?:std|crate)::|println!\(/],
+  ['swift', /\bfunc \w+\([^)]*:\s*\w[^)]*\)|\bfunc \w+\([^)]*\)\s*->|\bimport (?:SwiftUI|Foundation|UIKit)\b|\bguard let\b/],
+  ['go', /^package \w+$|\bfunc (?:\([^)]*\) )?\w+\(|\bfmt\.\w+\(|:= /m],
+  ['cpp', /#include\s*<\w+>|\bstd::|\btemplate\s*</],
+  ['c', /#include\s*[<"][\w/]+\.h[>"]|\bint main\s*\(/],
+  ['csharp', /\busing System(?:\.\w+)*;|\bnamespace \w+(?:\.\w+)*\s*[{;]|\bConsole\.Write|\{ get; (?:private )?set; \}|\basync Task\b/],
+  ['java', /\bpublic (?:static )?(?:final )?class \w+|\bSystem\.out\.print|\bimport java\.|\bpublic static void main\(/],
+  ['kotlin', /\bfun \w+\(|\bval \w+\s*[:=]/],
+  ['python', /^\s*(?:def \w+\(.*\)\s*(?:->.*)?:|class \w+(?:\(.*\))?:|from [\w.]+ import |import \w+(?:\.\w+)*\s*$|if __name__ ==|elif |print\()/m],
+  ['ruby', /^\s*(?:def \w+[?!]?(?:\(.*\))?\s*$|require ['"]|puts )/m],
+  ['php', /\$\w+\s*=.*;\s*$|\becho \$/m],
+  ['sql', /^\s*(?:SELECT\s[^;]+?\sFROM\s|INSERT INTO\s|UPDATE \w+ SET\s|DELETE FROM\s|CREATE (?:TABLE|INDEX|VIEW|FUNCTION|EXTENSION)\s|ALTER TABLE\s|WITH \w+ AS \()/im],
+  ['typescript', /\b(?:interface|type) \w+(?:<[^>]*>)?\s*(?:=|extends|\{)|:\s*(?:string|number|boolean|void|any|unknown)\b|\bas const\b|<\w+>\(/],
+  ['jsx', JSX],
+  ['javascript', /\b(?:const|let|var) \w+\s*=|\bfunction\s*\w*\(|=>|\bconsole\.\w+\(|\brequire\(|\bmodule\.exports\b|^\s*(?:import|export) /m],
+  ['css', /^\s*[^\s{}][^{}\n]*\{\s*\n\s*[\w-]+\s*:[^;\n]+;/m],
+  ['yaml', /^---\s*$|^[\w-]+:[ \t]*(?:\S.*)?\n(?:[ \t]+(?:- |[\w-]+:)|[\w-]+:[ \t])/m],
+  ['toml', /^\[[\w.-]+\]\s*$[\s\S]*^[\w-]+\s*=\s*\S/m],
+  ['ini', /^\[[\w .-]+\]\s*$/m],
+];
+
+// Guesses the language of an untagged fence from telltale syntax. Returns
+// 'plaintext' when nothing stands out, rather than guessing wildly.
+export function detectLanguage(code: string): string {
+  const trimmed = code.trim();
+  if (!trimmed) return 'plaintext';
+
+  if (/^[[{]/.test(trimmed)) {
+    try {
+      JSON.parse(trimmed);
+      return 'json';
+    } catch {
+      // Not JSON; could still be an object literal or a table header
+    }
+  }
+
+  const language = DETECTORS.find(([, pattern]) => pattern.test(code))?.[0] ?? 'plaintext';
+  // TypeScript that returns markup is TSX
+  return language === 'typescript' && JSX.test(code) ? 'tsx' : language;
+}
@@ -0,0 +1,157 @@
+import { transform } from 'sucrase';
+import type { ConsoleEntry } from './sandbox';
+import type { RunnerMessage } from './codeRunner.worker';
+import sandboxSource from './sandbox.ts?raw';
+import workerSource from './codeRunner.worker.ts?raw';
+
+export type { ConsoleEntry, ConsoleLevel } from './sandbox';
+
+// Longer runs are stopped, which also ends infinite loops
+const RUN_TIMEOUT_MS = 5000;
+
+const LANGUAGES: Record<string, 'javascript' | 'typescript'> = {
+  javascript: 'javascript',
+  js: 'javascript',
+  typescript: 'typescript',
+  ts: 'typescript',
+};
+
+// Whether code blocks in `language` can be run
+export function isRunnable(language: string): boolean {
+  return language.toLowerCase() in LANGUAGES;
+}
+
+export interface RunResult {
+  entries: ConsoleEntry[];
+  status: 'ok' | 'error' | 'timeout';
+  durationMs: number;
+}
+
+// TypeScript only needs its types removed; the rest is already JavaScript
+export function transpile(code: string, language: string): string {
+  if (LANGUAGES[language.toLowerCase()] !== 'typescript') return code;
+  return transform(code, { transforms: ['typescript'], disableESTransforms: true }).code;
+}
+
+// What the runner frame sends: the worker's messages, and its own
+type FrameMessage = RunnerMessage | { type: 'ready' } | { type: 'failed'; message: string };
+
+// The frame has an opaque origin, so its worker can't reach the app's
+// storage or cookies, and its policy blocks every request. Both are enforced
+// by the browser, whatever the code does to its own globals.
+const RUNNER_POLICY = [
+  "default-src 'none'",
+  "script-src 'unsafe-inline' 'unsafe-eval' blob:",
+  'worker-src blob:',
+  "connect-src 'none'",
+].join('; ');
+
+let runnerDocument: string | null = null;
+
+// The worker as one plain script: the sandbox and the worker compiled to
+// CommonJS, the worker's `require` handing it the sandbox. The frame starts
+// it from a blob, as it can't load scripts from the app.
+export function buildRunnerDocument(): string {
+  if (runnerDocument) return runnerDocument;
+
+  const compile = (source: string) =>
+    transform(source, { transforms: ['typescript', 'imports'], disableESTransforms: true }).code;
+  const script = `var sandbox = (function (exports) {\n${compile(sandboxSource)}\nreturn exports;\n})({});
+(function (exports, require) {\n${compile(workerSource)}\n})({}, function () { return sandbox; });`;
+
+  // Embedded as a string literal; `<` is escaped so nothing in it ends the tag
+  const bootstrap = `
+var send = function (message) { parent.postMessage(message, '*'); };
+try {
+  var worker = new Worker(URL.createObjectURL(new Blob([${JSON.stringify(script).replace(/</g, '\\u003c')}], { type: 'text/javascript' })));
+  worker.onmessage = function (event) { send(event.data); };
+  worker.onerror = function (event) {
+    event.preventDefault();
+    send({ type: 'failed', message: event.message || 'The code could not be run' });
+  };
+  window.onmessage = function (event) { if (event.source === parent) worker.postMessage(event.data); };
+  send({ type: 'ready' });
+} catch (error) {
+  send({ type: 'failed', message: String(error) });
+}`;
+
+  runnerDocument = `<!DOCTYPE html><html><head><meta http-equiv="Content-Security-Policy" content="${RUNNER_POLICY}"></head><body><script>${bootstrap}</script></body></html>`;
+  return runnerDocument;
+}
+
+// Runs the code in a worker inside a fresh hidden frame, which is removed
+// (ending the worker) when the code finishes or after RUN_TIMEOUT_MS.
+// `onEntry` sees console output as it happens.
+export function runCode(
+  code: string,
+  language: string,
+  onEntry?: (entry: ConsoleEntry) => void
+): Promise<RunResult> {
+  const startedAt = performance.now();
+  const entries: ConsoleEntry[] = [];
+  const add = (entry: ConsoleEntry) => {
+    entries.push(entry);
+    onEntry?.(entry);
+  };
+  const result = (status: RunResult['status']): RunResult =>
+    ({ entries, status, durationMs: performance.now() - startedAt });
+
+  let source: string;
+  try {
+    source = transpile(code, language);
+  } catch (error) {
+    add({ level: 'error', text: error instanceof Error ? error.message : String(error) });
+    return Promise.resolve(result('error'));
+  }
+
+  return new Promise(resolve => {
+    const frame = document.createElement('iframe');
+    frame.sandbox.add('allow-scripts');
+    frame.hidden = true;
+    frame.srcdoc = buildRunnerDocument();
+
+    const finish = (status: RunResult['status']) => {
+      clearTimeout(timeout);
+      window.removeEventListener('message', onMessage);
+      frame.remove();
+      resolve(result(status));
+    };
+
+    const timeout = setTimeout(() => {
+      add({ level: 'error', text: `Stopped after ${RUN_TIMEOUT_MS / 1000}s` });
+      finish('timeout');
+    }, RUN_TIMEOUT_MS);
+
+    const onMessage = (event: MessageEvent<FrameMessage>) => {
+      if (event.source !== frame.contentWindow) return;
+      const message = event.data;
+      if (message.type === 'ready') {
+        // An opaque origin can only be addressed as '*'
+        frame.contentWindow?.postMessage({ code: source }, '*');
+      } else if (message.type === 'entry') {
+        add(message.entry);
+      } else if (message.type === 'failed') {
+        add({ level: 'error', text: message.message });
+        finish('error');
+      } else {
+        finish(message.ok ? 'ok' : 'error');
+      }
+    };
+    window.addEventListener('message', onMessage);
+    document.body.appendChild(frame);
+  });
+}
+
+// The run as plain text, for sending to the model
+export function formatRunOutput(code: string, language: string, run: RunResult): string {
+  const output = run.entries
+    .map(entry => entry.level === 'log' ? entry.text : `[${entry.level}] ${entry.text}`)
+    .join('\n');
+  const outcome = run.status === 'ok' ? 'It finished' : run.status === 'timeout' ? 'It was stopped' : 'It failed';
+  return [
+    `I ran this ${language} code:`,
+    '```' + language + '\n' + code + '\n```',
+    `${outcome} after ${(run.durationMs / 1000).toFixed(1)}s with this output:`,
+    '```\n' + (output || '(no output)') + '\n```',
+  ].join('\n');
+}
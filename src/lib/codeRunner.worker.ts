@@ -0,0 +1,22 @@
+import { evaluate, inspect, type ConsoleEntry } from './sandbox';
+
+// The runner's worker. It is started from a blob inside an opaque-origin
+// frame (see codeRunner.ts), so the code it runs has no network, no storage
+// and nothing of the app's.
+
+export type RunnerMessage =
+  | { type: 'entry'; entry: ConsoleEntry }
+  | { type: 'done'; ok: boolean };
+
+const post = (message: RunnerMessage) => self.postMessage(message);
+
+// Rejections nobody awaited, e.g. from a promise chain the code didn't return
+self.addEventListener('unhandledrejection', (event) => {
+  event.preventDefault();
+  post({ type: 'entry', entry: { level: 'error', text: `Uncaught (in promise) ${inspect(event.reason)}` } });
+});
+
+self.onmessage = async (event: MessageEvent<{ code: string }>) => {
+  const ok = await evaluate(event.data.code, entry => post({ type: 'entry', entry }));
+  post({ type: 'done', ok });
+};
@@ -0,0 +1,79 @@
+import { generateAIResponse, historyBudget, type AIModel, type ChatMessage, type GenerateOptions } from './ai';
+import { estimateMessageTokens } from './context';
+import { isAbortError } from './errors';
+import { summarizeText } from './nlp';
+import { stripReasoning } from '../utils/messageParser';
+
+// After compaction the turns kept verbatim use at most this share of the budget,
+// so the summary is not rewritten again on the very next message
+const RECENT_SHARE = 0.5;
+
+const SUMMARY_PROMPT =
+  'Summarize the conversation you are given so it can replace the original turns. ' +
+  'Keep the user\'s goals, decisions, facts, names, code identifiers, errors and open questions. ' +
+  'Write concise prose without any preamble.';
+
+// The system prompt with the conversation summary appended
+export function withSummary(systemPrompt: string | undefined, summary: string): string | undefined {
+  if (!summary) return systemPrompt;
+  const summaryBlock = `Summary of the earlier conversation:\n${summary}`;
+  return systemPrompt ? `${systemPrompt}\n\n${summaryBlock}` : summaryBlock;
+}
+
+// Number of leading turns to fold into the summary, 0 when the history fits.
+// The kept turns start with a user message and always include the latest one.
+export function compactionPoint(history: ChatMessage[], model: AIModel, options: GenerateOptions = {}): number {
+  const budget = historyBudget(model, options);
+  const costs = history.map(estimateMessageTokens);
+  if (costs.reduce((total, cost) => total + cost, 0) <= budget) return 0;
+
+  let point = history.length;
+  let kept = 0;
+  while (point > 0 && kept + costs[point - 1] <= budget * RECENT_SHARE) {
+    point--;
+    kept += costs[point];
+  }
+  point = Math.min(point, history.length - 1);
+
+  while (point < history.length - 1 && history[point].role !== 'user') {
+    point++;
+  }
+  return point;
+}
+
+function toTranscript(turns: ChatMessage[]): string {
+  return turns
+    .map(({ role, content, toolName }) => {
+      const speaker = role === 'tool' ? `Tool ${toolName}` : role === 'user' ? 'User' : 'Assistant';
+      return `${speaker}: ${role === 'assistant' ? stripReasoning(content) : content}`;
+    })
+    .join('\n\n');
+}
+
+// Folds `turns` into the previous summary. Asks the model first and falls back
+// to an extractive summary when it can't be reached.
+export async function summarizeTurns(
+  turns: ChatMessage[],
+  previousSummary: string,
+  model: AIModel,
+  options: GenerateOptions = {}
+): Promise<string> {
+  const transcript = toTranscript(turns);
+  const content = previousSummary
+    ? `Summary so far:\n${previousSummary}\n\nConversation since then:\n${transcript}`
+    : `Conversation:\n${transcript}`;
+
+  try {
+    const summary = await generateAIResponse([{ role: 'user', content }], model, {
+      systemPrompt: SUMMARY_PROMPT,
+      fallbacks: options.fallbacks,
+      signal: options.signal,
+    });
+    if (stripReasoning(summary).trim()) return stripReasoning(summary).trim();
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.warn('Summarizing with the model failed, using the offline summary:', error);
+  }
+
+  return [previousSummary, summarizeText(transcript)].filter(Boolean).join(' ');
+}
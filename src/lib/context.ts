@@ -0,0 +1,82 @@
+export interface ChatImage {
+  mimeType: string;
+  // Base64 without the data: URL prefix
+  data: string;
+  // Text extracted by OCR, sent instead of the image to text-only models
+  fallbackText?: string;
+}
+
+export interface ToolCall {
+  // Provider-assigned id that the tool result refers back to
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface ChatMessage {
+  role: 'user' | 'assistant' | 'tool';
+  content: string;
+  images?: ChatImage[];
+  // Assistant only: tools the model asked to run
+  toolCalls?: ToolCall[];
+  // Tool only: the call this message answers
+  toolCallId?: string;
+  toolName?: string;
+}
+
+// Rough token estimate: ~4 characters per token for English text and code.
+// Good enough for budgeting without shipping a tokenizer per model.
+const CHARS_PER_TOKEN = 4;
+// Per-message overhead for role markers and separators
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// Don't bother keeping a trimmed turn that would be shorter than this
+const MIN_TRIMMED_TOKENS = 64;
+// Providers bill images by tile; this is a conservative flat estimate
+const IMAGE_TOKENS = 1000;
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateMessageTokens(message: ChatMessage): number {
+  const toolCallTokens = message.toolCalls ? estimateTokens(JSON.stringify(message.toolCalls)) : 0;
+  return estimateTokens(message.content) + toolCallTokens + (message.images?.length ?? 0) * IMAGE_TOKENS + MESSAGE_OVERHEAD_TOKENS;
+}
+
+function trimToTokens(content: string, tokens: number): string {
+  // Keep the end of the message, which is usually closest to the current topic
+  const chars = Math.max(0, tokens * CHARS_PER_TOKEN);
+  return content.length > chars ? '…' + content.slice(content.length - chars + 1) : content;
+}
+
+// Returns the newest suffix of `history` that fits in `budget` tokens.
+// Older turns are dropped first; the oldest turn that only partly fits is
+// trimmed from the front. The latest message is always kept.
+export function fitToTokenBudget(history: ChatMessage[], budget: number): ChatMessage[] {
+  const fitted: ChatMessage[] = [];
+  let remaining = budget;
+
+  for (let i = history.length - 1; i >= 0; i--) {
+    const message = history[i];
+    const cost = estimateMessageTokens(message);
+
+    if (cost <= remaining) {
+      fitted.unshift(message);
+      remaining -= cost;
+      continue;
+    }
+
+    const available = remaining - MESSAGE_OVERHEAD_TOKENS;
+    if (fitted.length === 0 || available >= MIN_TRIMMED_TOKENS) {
+      fitted.unshift({ ...message, content: trimToTokens(message.content, available) });
+    }
+    break;
+  }
+
+  // Providers expect the conversation to open with a user turn
+  while (fitted.length > 1 && fitted[0].role !== 'user') {
+    fitted.shift();
+  }
+
+  return fitted;
+}
@@ -0,0 +1,120 @@
+import { isSafeUrl } from '../utils/markdown';
+
+export type DiagramLanguage = 'mermaid' | 'dot';
+
+const LANGUAGES: Record<string, DiagramLanguage> = {
+  mermaid: 'mermaid',
+  dot: 'dot',
+  graphviz: 'dot',
+  gv: 'dot',
+};
+
+// The diagram language of a fence's info string, if it is one
+export function diagramLanguage(language: string | null | undefined): DiagramLanguage | null {
+  return LANGUAGES[language?.toLowerCase() ?? ''] ?? null;
+}
+
+// Both renderers are large, so they are only loaded once a diagram is shown
+let mermaidReady: Promise<typeof import('mermaid').default> | null = null;
+let vizReady: Promise<import('@viz-js/viz').Viz> | null = null;
+
+function loadMermaid() {
+  mermaidReady ??= import('mermaid').then(({ default: mermaid }) => {
+    mermaid.initialize({
+      startOnLoad: false,
+      theme: 'dark',
+      securityLevel: 'strict',
+      // Plain SVG text instead of HTML labels, so PNG export can draw it
+      htmlLabels: false,
+      flowchart: { htmlLabels: false },
+    });
+    return mermaid;
+  });
+  return mermaidReady;
+}
+
+function loadViz() {
+  vizReady ??= import('@viz-js/viz').then(({ instance }) => instance());
+  return vizReady;
+}
+
+let diagramCount = 0;
+
+// Diagram sources come from the model: drop scripts, event handlers and
+// links that aren't plain web links
+function sanitizeSvg(svg: string): string {
+  const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+  const root = doc.documentElement;
+  if (root.nodeName !== 'svg') throw new Error('The renderer did not produce an SVG');
+
+  root.querySelectorAll('script, foreignObject').forEach(element => element.remove());
+  for (const element of [root, ...Array.from(root.querySelectorAll('*'))]) {
+    for (const attribute of Array.from(element.attributes)) {
+      const name = attribute.name.toLowerCase();
+      if (name.startsWith('on')) {
+        element.removeAttribute(attribute.name);
+      } else if ((name === 'href' || name === 'xlink:href') && !attribute.value.startsWith('#') && !isSafeUrl(attribute.value)) {
+        element.removeAttribute(attribute.name);
+      }
+    }
+  }
+  return new XMLSerializer().serializeToString(root);
+}
+
+// Renders a diagram to SVG markup. Throws with the renderer's message when the
+// source doesn't parse.
+export async function renderDiagram(language: DiagramLanguage, source: string): Promise<string> {
+  if (language === 'mermaid') {
+    const mermaid = await loadMermaid();
+    // Parsing first reports errors without leaving a broken diagram in the page
+    await mermaid.parse(source);
+    const { svg } = await mermaid.render(`mermaid-diagram-${++diagramCount}`, source);
+    return sanitizeSvg(svg);
+  }
+
+  const viz = await loadViz();
+  const result = viz.render(source, { format: 'svg' });
+  if (result.status !== 'success') {
+    throw new Error(result.errors.map(error => error.message).join('\n') || 'Could not render the graph');
+  }
+  return sanitizeSvg(result.output);
+}
+
+// Mermaid sizes its diagrams relative to the page (width="100%"), which has no
+// meaning in an image; use the size of the viewBox instead
+function withIntrinsicSize(svg: string): string {
+  const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+  const root = doc.documentElement;
+  const [, , width, height] = (root.getAttribute('viewBox') ?? '').split(/[\s,]+/).map(Number);
+  if (width > 0 && height > 0) {
+    root.setAttribute('width', String(width));
+    root.setAttribute('height', String(height));
+    root.removeAttribute('style');
+  }
+  return new XMLSerializer().serializeToString(root);
+}
+
+// Rasterizes SVG markup at twice its size, for a sharper PNG
+export async function svgToPng(svg: string): Promise<Blob> {
+  const url = URL.createObjectURL(new Blob([withIntrinsicSize(svg)], { type: 'image/svg+xml' }));
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+
+    const scale = 2;
+    const canvas = document.createElement('canvas');
+    canvas.width = image.naturalWidth * scale;
+    canvas.height = image.naturalHeight * scale;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not available');
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0);
+
+    return await new Promise((resolve, reject) => {
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not create the PNG')), 'image/png');
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
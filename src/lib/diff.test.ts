@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { diffLines, parseUnifiedDiff, splitRows } from './diff';
+
+describe('parseUnifiedDiff', () => {
+  it('numbers lines from the hunk headers', () => {
+    const lines = parseUnifiedDiff([
+      'diff --git a/app.ts b/app.ts',
+      '--- a/app.ts',
+      '+++ b/app.ts',
+      '@@ -10,3 +10,3 @@ function main() {',
+      ' const a = 1;',
+      '-const b = 2;',
+      '+const b = 3;',
+      ' return a + b;',
+    ].join('\n'));
+
+    expect(lines.map(line => line.kind)).toEqual(['meta', 'meta', 'meta', 'hunk', 'context', 'removed', 'added', 'context']);
+    expect(lines[5]).toEqual({ kind: 'removed', text: 'const b = 2;', oldLine: 11 });
+    expect(lines[6]).toEqual({ kind: 'added', text: 'const b = 3;', newLine: 11 });
+    expect(lines[7]).toMatchObject({ oldLine: 12, newLine: 12 });
+  });
+
+  it('reads a removed line that looks like a file header inside a hunk', () => {
+    const lines = parseUnifiedDiff('@@ -1,2 +1,1 @@\n--- a comment\n keep');
+    expect(lines[1]).toEqual({ kind: 'removed', text: '-- a comment', oldLine: 1 });
+  });
+});
+
+describe('diffLines', () => {
+  it('finds the changed lines between two versions', () => {
+    const lines = diffLines('a\nb\nc\nd\n', 'a\nc\nx\nd\n');
+    expect(lines.map(line => `${line.kind[0]} ${line.text}`)).toEqual(['c a', 'r b', 'c c', 'a x', 'c d']);
+    expect(lines[4]).toMatchObject({ oldLine: 4, newLine: 4 });
+    expect(lines[3]).toMatchObject({ newLine: 3 });
+  });
+
+  it('keeps the numbering of unchanged lines after an insertion', () => {
+    const lines = diffLines('one\ntwo', 'zero\none\ntwo');
+    expect(lines[0]).toEqual({ kind: 'added', text: 'zero', newLine: 1 });
+    expect(lines[2]).toEqual({ kind: 'context', text: 'two', oldLine: 2, newLine: 3 });
+  });
+});
+
+describe('splitRows', () => {
+  it('puts each changed line next to its replacement', () => {
+    const rows = splitRows(diffLines('a\nb\nc', 'a\nB\nC\nD'));
+    expect(rows.map(({ left, right }) => [left?.text ?? null, right?.text ?? null])).toEqual([
+      ['a', 'a'],
+      ['b', 'B'],
+      ['c', 'C'],
+      [null, 'D'],
+    ]);
+  });
+});
@@ -0,0 +1,158 @@
+// Line diffs for the diff view: parsed from a unified diff, or computed
+// between a "before" and an "after" version of the same code
+
+export type DiffLineKind = 'context' | 'added' | 'removed' | 'hunk' | 'meta';
+
+export interface DiffLine {
+  kind: DiffLineKind;
+  text: string;
+  // Line numbers in the old and new file, where the line exists there
+  oldLine?: number;
+  newLine?: number;
+}
+
+// One row of the side-by-side view. Hunk headers and file headers span both
+// sides, and are given as `left` with no `right`.
+export interface SplitRow {
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+
+// Reads a unified diff (`git diff`, `diff -u`). Lines before the first hunk
+// header, and file headers between files, are kept as metadata. Numbering
+// starts at 1 when the diff has no hunk headers, as models often write
+// `+`/`-` lines without them.
+export function parseUnifiedDiff(text: string): DiffLine[] {
+  let oldLine = 1;
+  let newLine = 1;
+  let inHunk = false;
+
+  return text.replace(/\n$/, '').split('\n').map((line): DiffLine => {
+    const hunk = line.match(HUNK_HEADER);
+    if (hunk) {
+      oldLine = Number(hunk[1]);
+      newLine = Number(hunk[2]);
+      inHunk = true;
+      return { kind: 'hunk', text: line };
+    }
+    // Inside a hunk, `--- x` is a removed `-- x` line; a `diff` line ends it
+    if (line.startsWith('diff ')) inHunk = false;
+    if (!inHunk && /^(?:diff |index |--- |\+\+\+ |new file|deleted file|similarity |rename )/.test(line)) {
+      return { kind: 'meta', text: line };
+    }
+    if (line.startsWith('+')) return { kind: 'added', text: line.slice(1), newLine: newLine++ };
+    if (line.startsWith('-')) return { kind: 'removed', text: line.slice(1), oldLine: oldLine++ };
+    if (line.startsWith('\\')) return { kind: 'meta', text: line };
+    // Context lines start with a space, which editors and models often drop
+    return { kind: 'context', text: line.startsWith(' ') ? line.slice(1) : line, oldLine: oldLine++, newLine: newLine++ };
+  });
+}
+
+// Beyond this many line pairs the table gets too big to build on every
+// streamed token; the versions are shown as all removed, then all added
+const MAX_CELLS = 4_000_000;
+
+// The shortest edit turning `before` into `after`, line by line, as a
+// longest-common-subsequence table walked from the start. Unchanged lines
+// at either end are matched up front, which is most of most revisions.
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.replace(/\n$/, '').split('\n');
+  const b = after.replace(/\n$/, '').split('\n');
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let end = 0;
+  while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) end++;
+
+  const oldMiddle = a.slice(start, a.length - end);
+  const newMiddle = b.slice(start, b.length - end);
+  const lines: DiffLine[] = [];
+  // An unchanged line at either end; `shift` is how far the new file's
+  // numbering has moved by then
+  const context = (index: number, shift: number) =>
+    lines.push({ kind: 'context', text: a[index], oldLine: index + 1, newLine: index + 1 + shift });
+
+  for (let k = 0; k < start; k++) context(k, 0);
+
+  const n = oldMiddle.length;
+  const m = newMiddle.length;
+  let i = 0;
+  let j = 0;
+  const removed = () => {
+    lines.push({ kind: 'removed', text: oldMiddle[i], oldLine: start + i + 1 });
+    i++;
+  };
+  const added = () => {
+    lines.push({ kind: 'added', text: newMiddle[j], newLine: start + j + 1 });
+    j++;
+  };
+
+  if (n * m <= MAX_CELLS) {
+    // common[x][y]: length of the LCS of oldMiddle[x..] and newMiddle[y..]
+    const common = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+    for (let x = n - 1; x >= 0; x--) {
+      for (let y = m - 1; y >= 0; y--) {
+        common[x][y] = oldMiddle[x] === newMiddle[y]
+          ? common[x + 1][y + 1] + 1
+          : Math.max(common[x + 1][y], common[x][y + 1]);
+      }
+    }
+    while (i < n && j < m) {
+      if (oldMiddle[i] === newMiddle[j]) {
+        lines.push({ kind: 'context', text: oldMiddle[i], oldLine: start + i + 1, newLine: start + j + 1 });
+        i++;
+        j++;
+      } else if (common[i + 1][j] >= common[i][j + 1]) {
+        removed();
+      } else {
+        added();
+      }
+    }
+  }
+  while (i < n) removed();
+  while (j < m) added();
+
+  for (let k = a.length - end; k < a.length; k++) context(k, b.length - a.length);
+
+  return lines;
+}
+
+// Pairs removed lines with the added lines that replace them, so a changed
+// line sits next to its new version
+export function splitRows(lines: DiffLine[]): SplitRow[] {
+  const rows: SplitRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ left: removed[k] ?? null, right: added[k] ?? null });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const line of lines) {
+    if (line.kind === 'removed') {
+      // A removal after additions starts a new change
+      if (added.length) flush();
+      removed.push(line);
+    } else if (line.kind === 'added') {
+      added.push(line);
+    } else {
+      flush();
+      rows.push(line.kind === 'context' ? { left: line, right: line } : { left: line, right: null });
+    }
+  }
+  flush();
+  return rows;
+}
+
+export function diffStats(lines: DiffLine[]): { added: number; removed: number } {
+  return {
+    added: lines.filter(line => line.kind === 'added').length,
+    removed: lines.filter(line => line.kind === 'removed').length,
+  };
+}
@@ -0,0 +1,140 @@
+export type ProviderErrorKind =
+  | 'auth'
+  | 'rate_limit'
+  | 'quota'
+  | 'timeout'
+  | 'malformed_response'
+  | 'network'
+  | 'server';
+
+export class ProviderError extends Error {
+  readonly kind: ProviderErrorKind;
+  readonly providerId: string;
+  readonly status?: number;
+  // Transient failures are worth retrying with backoff
+  readonly retryable: boolean;
+  readonly cause?: unknown;
+
+  constructor(kind: ProviderErrorKind, providerId: string, message: string, options: { status?: number; retryable?: boolean; cause?: unknown } = {}) {
+    super(message);
+    this.name = 'ProviderError';
+    this.kind = kind;
+    this.providerId = providerId;
+    this.status = options.status;
+    this.retryable = options.retryable ?? false;
+    this.cause = options.cause;
+  }
+}
+
+export class AuthError extends ProviderError {
+  constructor(providerId: string, status?: number) {
+    super('auth', providerId, `Authentication with ${providerId} failed. Check the API key.`, { status });
+    this.name = 'AuthError';
+  }
+}
+
+export class RateLimitError extends ProviderError {
+  // Delay requested by the provider's Retry-After header, if any
+  readonly retryAfterMs?: number;
+
+  constructor(providerId: string, retryAfterMs?: number) {
+    super('rate_limit', providerId, `${providerId} is rate limiting requests.`, { status: 429, retryable: true });
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class QuotaExceededError extends ProviderError {
+  constructor(providerId: string, status?: number) {
+    super('quota', providerId, `The ${providerId} quota or credit balance is exhausted.`, { status });
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export class RequestTimeoutError extends ProviderError {
+  constructor(providerId: string, timeoutMs: number) {
+    super('timeout', providerId, `${providerId} did not respond within ${Math.round(timeoutMs / 1000)}s.`, { retryable: true });
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+export class MalformedResponseError extends ProviderError {
+  constructor(providerId: string, cause?: unknown) {
+    super('malformed_response', providerId, `${providerId} returned a response that could not be understood.`, { cause });
+    this.name = 'MalformedResponseError';
+  }
+}
+
+export class NetworkError extends ProviderError {
+  constructor(providerId: string, cause?: unknown) {
+    super('network', providerId, `Could not reach ${providerId}. Check your connection.`, { retryable: true, cause });
+    this.name = 'NetworkError';
+  }
+}
+
+// The reply never matched the requested JSON schema, even after re-prompting
+export class SchemaValidationError extends ProviderError {
+  readonly problems: string[];
+
+  constructor(providerId: string, problems: string[]) {
+    super('malformed_response', providerId, `${providerId} did not return JSON matching the schema: ${problems.slice(0, 3).join('; ')}`);
+    this.name = 'SchemaValidationError';
+    this.problems = problems;
+  }
+}
+
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Maps a non-2xx HTTP response onto the matching error type
+export function errorFromResponse(providerId: string, response: Response): ProviderError {
+  const { status } = response;
+
+  if (status === 401 || status === 403) {
+    return new AuthError(providerId, status);
+  }
+  if (status === 402) {
+    return new QuotaExceededError(providerId, status);
+  }
+  if (status === 408) {
+    return new ProviderError('timeout', providerId, `${providerId} timed out.`, { status, retryable: true });
+  }
+  if (status === 429) {
+    return new RateLimitError(providerId, parseRetryAfter(response.headers.get('Retry-After')));
+  }
+  return new ProviderError('server', providerId, `${providerId} request failed with status ${status}.`, {
+    status,
+    retryable: status >= 500,
+  });
+}
+
+// True for the error raised when a request is cancelled through its AbortSignal
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+// The error fetch raises for a cancelled request, for our own waits to match
+export function abortError(): DOMException {
+  return new DOMException('The request was cancelled', 'AbortError');
+}
+
+// Waits `ms`, or rejects with an abort error as soon as `signal` is aborted
+export function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
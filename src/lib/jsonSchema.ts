@@ -0,0 +1,63 @@
+import type { JsonSchema } from './providers';
+
+function typeMatches(schema: JsonSchema, value: unknown): boolean {
+  switch (schema.type) {
+    case 'object': return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array': return Array.isArray(value);
+    case 'integer': return Number.isInteger(value);
+    default: return typeof value === schema.type;
+  }
+}
+
+// Returns the problems found with `value`, empty when it matches `schema`.
+// Covers the subset of JSON Schema that JsonSchema describes.
+export function validateJson(schema: JsonSchema, value: unknown, path = '$'): string[] {
+  if (!typeMatches(schema, value)) {
+    return [`${path} must be of type ${schema.type}`];
+  }
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    return [`${path} must be one of ${schema.enum.join(', ')}`];
+  }
+
+  if (schema.type === 'array' && schema.items) {
+    const items = schema.items;
+    return (value as unknown[]).flatMap((item, i) => validateJson(items, item, `${path}[${i}]`));
+  }
+
+  if (schema.type === 'object') {
+    const object = value as Record<string, unknown>;
+    const missing = (schema.required ?? [])
+      .filter(key => object[key] === undefined)
+      .map(key => `${path}.${key} is required`);
+    const invalid = Object.entries(schema.properties ?? {})
+      .filter(([key]) => object[key] !== undefined)
+      .flatMap(([key, property]) => validateJson(property, object[key], `${path}.${key}`));
+    return [...missing, ...invalid];
+  }
+
+  return [];
+}
+
+const SCHEMA_TYPES = ['object', 'array', 'string', 'number', 'integer', 'boolean'];
+
+// Parses schema text typed by the user; throws with a readable message
+export function parseJsonSchema(text: string): JsonSchema {
+  let schema: unknown;
+  try {
+    schema = JSON.parse(text);
+  } catch {
+    throw new Error('The schema is not valid JSON');
+  }
+
+  const check = (node: unknown, path: string) => {
+    if (typeof node !== 'object' || node === null || !SCHEMA_TYPES.includes((node as JsonSchema).type)) {
+      throw new Error(`${path} needs a "type" of ${SCHEMA_TYPES.join(', ')}`);
+    }
+    const { properties, items } = node as JsonSchema;
+    Object.entries(properties ?? {}).forEach(([key, property]) => check(property, `${path}.${key}`));
+    if (items) check(items, `${path}[]`);
+  };
+  check(schema, 'The schema');
+
+  return schema as JsonSchema;
+}
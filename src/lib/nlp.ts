@@ -109,6 +109,12 @@ function generateSummary(doc: any, sentences: string[]): string {
   return topSentences.join(' ');
 }
 
+// Extractive summary of free text, used when no model is available to write one
+export function summarizeText(text: string): string {
+  const doc = nlp(text);
+  return generateSummary(doc, doc.sentences().out('array'));
+}
+
 export function highlightEntities(text: string): string {
   const doc = nlp(text);
   let highlightedText = text;
@@ -0,0 +1,27 @@
+import type { AIModel, TokenUsage } from './ai';
+
+// USD per million tokens. Models missing from the table (e.g. local ones) cost nothing.
+interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+const PRICES: Record<string, ModelPrice> = {
+  'openrouter/deepseek/deepseek-r1-distill-llama-70b:free': { input: 0, output: 0 },
+  'gemini/gemini-2.0-flash': { input: 0.1, output: 0.4 },
+};
+
+export function getModelPrice(model: AIModel): ModelPrice | undefined {
+  return PRICES[`${model.provider}/${model.modelId}`];
+}
+
+export function estimateCost(model: AIModel, usage: TokenUsage): number {
+  const price = getModelPrice(model);
+  if (!price) return 0;
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+export function formatCost(usd: number): string {
+  if (usd === 0) return '$0.00';
+  return usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { strFromU8, unzipSync } from 'fflate';
+import { buildArchive, codeFileName, collectProjectFiles, normalizePath } from './projectFiles';
+
+function reply(id: string, content: string) {
+  return { id, role: 'assistant', content, created_at: `2026-10-19T10:0${id}:00Z` };
+}
+
+// jsdom's Blob has no arrayBuffer()
+function readBlob(blob: Blob): Promise<Uint8Array> {
+  return new Promise(resolve => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+describe('codeFileName', () => {
+  it('reads the name from the fence info string', () => {
+    expect(codeFileName({ meta: 'title=src/app.ts', value: '' })).toBe('src/app.ts');
+    expect(codeFileName({ meta: 'filename="docs/read me.md"', value: '' })).toBe('docs/read me.md');
+  });
+
+  it('reads the name from a comment on the first line', () => {
+    expect(codeFileName({ meta: null, value: '// file: src/index.ts\nexport {};' })).toBe('src/index.ts');
+    expect(codeFileName({ meta: null, value: '# File: scripts/build.py\nprint(1)' })).toBe('scripts/build.py');
+    expect(codeFileName({ meta: null, value: '<!-- file: public/index.html -->\n<p></p>' })).toBe('public/index.html');
+    expect(codeFileName({ meta: null, value: 'const file = 1;' })).toBeNull();
+  });
+});
+
+describe('normalizePath', () => {
+  it('keeps paths inside the project', () => {
+    expect(normalizePath('/etc/../../passwd')).toBe('passwd');
+    expect(normalizePath('C:\\work\\.\\src\\main.rs')).toBe('work/src/main.rs');
+    expect(normalizePath('`./src/app.ts`')).toBe('src/app.ts');
+    expect(normalizePath('../..')).toBeNull();
+  });
+});
+
+describe('collectProjectFiles', () => {
+  it('keeps the latest version of each path', () => {
+    const files = collectProjectFiles([
+      reply('1', '```ts title=src/b.ts\nexport const b = 1;\n```\n\n```ts\n// file: src/a.ts\nexport const a = 1;\n```'),
+      { id: '2', role: 'user', content: '```ts title=src/b.ts\nmine\n```', created_at: '2026-10-19T10:02:00Z' },
+      reply('3', '```ts title=src/b.ts\nexport const b = 2;\n```'),
+    ]);
+
+    expect(files.map(file => [file.path, file.versions, file.messageId])).toEqual([
+      ['src/a.ts', 1, '1'],
+      ['src/b.ts', 2, '3'],
+    ]);
+    expect(files[1].code).toBe('export const b = 2;');
+  });
+});
+
+describe('buildArchive', () => {
+  it('zips the files in their folders', async () => {
+    const files = collectProjectFiles([reply('1', '```ts title=src/lib/util.ts\nexport {};\n```\n\n```md title=README.md\n# App\n```')]);
+    const entries = unzipSync(await readBlob(buildArchive(files)));
+
+    expect(Object.keys(entries).sort()).toEqual(['README.md', 'src/lib/util.ts']);
+    expect(strFromU8(entries['src/lib/util.ts'])).toBe('export {};\n');
+  });
+});
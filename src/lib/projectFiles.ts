@@ -0,0 +1,86 @@
+import { strToU8, zipSync } from 'fflate';
+import type { Code } from '../utils/markdown';
+import { messageCodeBlocks } from '../utils/messageParser';
+
+// The latest version of a file the assistant wrote in a conversation
+export interface ProjectFile {
+  path: string;
+  language: string | null;
+  code: string;
+  // The message holding this version
+  messageId: string;
+  createdAt: string;
+  // How many different versions the conversation has of the file
+  versions: number;
+}
+
+interface FileSource {
+  id: string;
+  role: string;
+  content: string;
+  created_at: string;
+}
+
+// ```ts title=src/app.ts, also file=, filename= and path=, optionally quoted
+const META_NAME = /(?:^|\s)(?:title|file|filename|path)=(?:"([^"]+)"|'([^']+)'|(\S+))/i;
+
+// `// file: src/app.ts` as the first line, in any common comment syntax
+const FIRST_LINE_NAME = /^\s*(?:\/\/|#|--|;|\/\*|<!--)\s*(?:file(?:name)?|path):\s*(.+?)\s*(?:\*\/|-->)?\s*$/i;
+
+// A relative path with forward slashes that stays inside the project, or
+// null for one that names nothing. Leading slashes, drive letters and `..`
+// segments that would climb out of the project are dropped, so an archive
+// never writes outside the folder it is extracted into.
+export function normalizePath(path: string): string | null {
+  const segments: string[] = [];
+  for (const segment of path.trim().replace(/^[`'"]|[`'"]$/g, '').replace(/\\/g, '/').replace(/^[a-z]:/i, '').split('/')) {
+    if (segment === '..') segments.pop();
+    else if (segment && segment !== '.') segments.push(segment);
+  }
+  return segments.length ? segments.join('/') : null;
+}
+
+// The file a code block is meant to be saved as, if it names one
+export function codeFileName(block: Pick<Code, 'meta' | 'value'>): string | null {
+  const fromMeta = block.meta?.match(META_NAME);
+  const name = fromMeta
+    ? fromMeta[1] ?? fromMeta[2] ?? fromMeta[3]
+    : block.value.split('\n', 1)[0].match(FIRST_LINE_NAME)?.[1];
+  return name ? normalizePath(name) : null;
+}
+
+// Every named file in the assistant's replies, at its latest version,
+// sorted by path
+export function collectProjectFiles(messages: FileSource[]): ProjectFile[] {
+  const files = new Map<string, ProjectFile>();
+
+  for (const message of messages) {
+    if (message.role !== 'assistant') continue;
+
+    for (const block of messageCodeBlocks(message)) {
+      const path = codeFileName(block);
+      if (!path) continue;
+
+      const previous = files.get(path);
+      if (previous?.code === block.value) continue;
+      files.set(path, {
+        path,
+        language: block.lang ?? null,
+        code: block.value,
+        messageId: message.id,
+        createdAt: message.created_at,
+        versions: (previous?.versions ?? 0) + 1,
+      });
+    }
+  }
+
+  return Array.from(files.values()).sort((a, b) => a.path.localeCompare(b.path));
+}
+
+// A zip of the files, in their folders
+export function buildArchive(files: ProjectFile[]): Blob {
+  const entries = Object.fromEntries(
+    files.map(file => [file.path, strToU8(file.code.endsWith('\n') ? file.code : `${file.code}\n`)])
+  );
+  return new Blob([zipSync(entries)], { type: 'application/zip' });
+}
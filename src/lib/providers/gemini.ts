@@ -0,0 +1,138 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { ChatMessage } from '../context';
+import type { AIProvider, ProviderOutput } from './types';
+
+const GEMINI_API_KEY = 'use your api key';
+
+interface GeminiFunctionCall {
+  id?: string;
+  name: string;
+  args?: Record<string, unknown>;
+}
+
+interface GeminiResponse {
+  candidates?: { content?: { parts?: { text?: string; functionCall?: GeminiFunctionCall }[] } }[];
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+  };
+  modelVersion?: string;
+}
+
+function parseOutput(data: unknown): ProviderOutput {
+  const response = data as GeminiResponse;
+  const parts = response.candidates?.[0]?.content?.parts;
+  const usage = response.usageMetadata;
+
+  // Gemini sends each function call whole; older API versions don't give it an id
+  const toolCalls = parts
+    ?.filter(part => part.functionCall)
+    .map(({ functionCall }) => ({
+      id: functionCall!.id ?? uuidv4(),
+      name: functionCall!.name,
+      arguments: functionCall!.args ?? {},
+    }));
+
+  return {
+    text: parts?.map(part => part.text ?? '').join(''),
+    toolCalls: toolCalls?.length ? toolCalls : undefined,
+    // Streamed chunks repeat the running totals, so the last one wins
+    usage: usage && {
+      promptTokens: usage.promptTokenCount ?? 0,
+      completionTokens: usage.candidatesTokenCount ?? 0,
+    },
+    model: response.modelVersion,
+  };
+}
+
+// Tool results go back as functionResponse parts, all results of one turn in
+// a single content block
+function toGeminiContents(history: ChatMessage[]) {
+  const contents: { role: string; parts: object[] }[] = [];
+
+  for (const { role, content, images = [], toolCalls = [], toolName } of history) {
+    if (role === 'tool') {
+      const part = { functionResponse: { name: toolName, response: { result: content } } };
+      const previous = contents[contents.length - 1];
+      if (previous?.parts.every(p => 'functionResponse' in p)) {
+        previous.parts.push(part);
+      } else {
+        contents.push({ role: 'user', parts: [part] });
+      }
+      continue;
+    }
+
+    contents.push({
+      role: role === 'assistant' ? 'model' : 'user',
+      parts: [
+        ...(content || toolCalls.length === 0 ? [{ text: content }] : []),
+        ...images.map(image => ({ inline_data: { mime_type: image.mimeType, data: image.data } })),
+        ...toolCalls.map(call => ({ functionCall: { name: call.name, args: call.arguments } }))
+      ]
+    });
+  }
+
+  return contents;
+}
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  name: 'Gemini',
+  models: [
+    { id: 'gemini-2.0-flash', name: 'Gemini Flash', contextWindow: 1048576, reservedOutputTokens: 8192, supportsImages: true, supportsTools: true },
+  ],
+  capabilities: {
+    streaming: true,
+    structuredOutput: true,
+  },
+
+  buildRequest({ modelId, history, systemPrompt, params = {}, tools, responseSchema, stream }) {
+    const endpoint = stream
+      ? `${modelId}:streamGenerateContent?alt=sse&key=${GEMINI_API_KEY}`
+      : `${modelId}:generateContent?key=${GEMINI_API_KEY}`;
+
+    return {
+      url: `https://generativelanguage.googleapis.com/v1beta/models/${endpoint}`,
+      init: {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          contents: toGeminiContents(history),
+          systemInstruction: systemPrompt ? { parts: [{ text: systemPrompt }] } : undefined,
+          tools: tools?.length ? [{ functionDeclarations: tools }] : undefined,
+          generationConfig: {
+            temperature: params.temperature,
+            topP: params.topP,
+            maxOutputTokens: params.maxTokens,
+            stopSequences: params.stopSequences?.length ? params.stopSequences : undefined,
+            responseMimeType: responseSchema ? 'application/json' : undefined,
+            responseSchema,
+          }
+        })
+      }
+    };
+  },
+
+  parseResponse(data) {
+    const { text, ...output } = parseOutput(data);
+    if (text === undefined) {
+      throw new Error('Unexpected Gemini response');
+    }
+    return { text, ...output };
+  },
+
+  parseStreamEvent(data) {
+    const { toolCalls, ...output } = parseOutput(data);
+    return {
+      ...output,
+      toolCallDeltas: toolCalls?.map((call, index) => ({
+        index,
+        id: call.id,
+        name: call.name,
+        arguments: JSON.stringify(call.arguments),
+      })),
+    };
+  },
+};
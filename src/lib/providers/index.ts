@@ -0,0 +1,68 @@
+import { openRouterProvider } from './openrouter';
+import { geminiProvider } from './gemini';
+import { createLocalProvider } from './local';
+import { createMockProvider, loadMockFixtures } from './mock';
+import type { AIProvider, ModelInfo } from './types';
+
+export type {
+  AIProvider,
+  ModelInfo,
+  ProviderCapabilities,
+  ProviderRequest,
+  ProviderOutput,
+  ToolDefinition,
+  ToolCallDelta,
+  JsonSchema,
+  GenerationParams,
+  TokenUsage,
+  HttpRequest,
+} from './types';
+export { createOpenAICompatibleProvider, type OpenAICompatibleConfig } from './openaiCompatible';
+export { createMockProvider, type MockFixture, type MockStep } from './mock';
+
+const providers = new Map<string, AIProvider>();
+
+export function registerProvider(provider: AIProvider) {
+  providers.set(provider.id, provider);
+}
+
+export function getProvider(id: string): AIProvider {
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new Error(`Unknown AI provider: ${id}`);
+  }
+  return provider;
+}
+
+export function listProviders(): AIProvider[] {
+  return [...providers.values()];
+}
+
+export function findModel(providerId: string, modelId: string): ModelInfo | undefined {
+  return providers.get(providerId)?.models.find(m => m.id === modelId);
+}
+
+export function hasModel(providerId: string, modelId: string): boolean {
+  return findModel(providerId, modelId) !== undefined;
+}
+
+export function getModelInfo(providerId: string, modelId: string): ModelInfo {
+  const model = findModel(providerId, modelId);
+  if (!model) {
+    throw new Error(`Unknown model ${modelId} for provider ${providerId}`);
+  }
+  return model;
+}
+
+registerProvider(openRouterProvider);
+registerProvider(geminiProvider);
+
+const localProvider = createLocalProvider(import.meta.env);
+if (localProvider) {
+  registerProvider(localProvider);
+}
+
+// Scripted replies from ./mockFixtures, for working without network or API keys
+if (import.meta.env.DEV) {
+  registerProvider(createMockProvider(loadMockFixtures()));
+}
@@ -0,0 +1,35 @@
+import { createOpenAICompatibleProvider } from './openaiCompatible';
+import type { AIProvider } from './types';
+
+// Self-hosted OpenAI-compatible server (Ollama, llama.cpp, vLLM, LM Studio).
+// Enabled by setting VITE_LOCAL_AI_BASE_URL, e.g. http://localhost:11434/v1,
+// and VITE_LOCAL_AI_MODELS to a comma-separated list of model ids. Models
+// listed in VITE_LOCAL_AI_VISION_MODELS also receive images, and models listed
+// in VITE_LOCAL_AI_TOOL_MODELS are offered tools.
+export function createLocalProvider(env: ImportMetaEnv): AIProvider | null {
+  const baseUrl = env.VITE_LOCAL_AI_BASE_URL;
+  if (!baseUrl) return null;
+
+  const modelIds = (env.VITE_LOCAL_AI_MODELS ?? 'llama3.1')
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean);
+  const visionModelIds = (env.VITE_LOCAL_AI_VISION_MODELS ?? '').split(',').map(id => id.trim());
+  const toolModelIds = (env.VITE_LOCAL_AI_TOOL_MODELS ?? '').split(',').map(id => id.trim());
+  const contextWindow = Number(env.VITE_LOCAL_AI_CONTEXT_WINDOW) || 8192;
+
+  return createOpenAICompatibleProvider({
+    id: 'local',
+    name: 'Local',
+    baseUrl,
+    apiKey: env.VITE_LOCAL_AI_API_KEY,
+    models: modelIds.map(id => ({
+      id,
+      name: id,
+      contextWindow,
+      reservedOutputTokens: Math.min(2048, Math.floor(contextWindow / 4)),
+      supportsImages: visionModelIds.includes(id),
+      supportsTools: toolModelIds.includes(id),
+    })),
+  });
+}
@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { generateAIResponse, generateStructuredResponse, streamAIResponse, type ResponseInfo } from '../ai';
+import { AuthError, NetworkError, SchemaValidationError, isAbortError } from '../errors';
+import { createMockProvider, registerProvider, type MockFixture } from '.';
+
+const fixtures: Record<string, MockFixture> = {
+  chunks: { name: 'Chunks', steps: [{ chunks: ['Hel', 'lo', '!'], usage: { promptTokens: 5, completionTokens: 2 } }] },
+  matched: {
+    name: 'Matched',
+    steps: [
+      { match: 'weather', chunks: ['Sunny.'] },
+      { chunks: ['Anything else.'] },
+    ],
+  },
+  flaky: { name: 'Flaky', steps: [{ status: 429, headers: { 'Retry-After': '0' } }, { chunks: ['Recovered.'] }] },
+  unauthorized: { name: 'Unauthorized', steps: [{ status: 401 }] },
+  offline: { name: 'Offline', loop: true, steps: [{ networkError: true }] },
+  slow: { name: 'Slow', steps: [{ chunks: ['One', 'Two', 'Three'], chunkDelayMs: 50 }] },
+  tools: {
+    name: 'Tools',
+    steps: [{ toolCalls: [{ id: 'call_1', name: 'calculator', arguments: { expression: '1 + 1' } }] }],
+  },
+  json: {
+    name: 'JSON',
+    steps: [
+      { chunks: ['{"total": "twelve"}'] },
+      { chunks: ['```json\n{"total": 12}\n```'] },
+    ],
+  },
+  badJson: { name: 'Bad JSON', loop: true, steps: [{ chunks: ['not json'] }] },
+};
+
+const model = (modelId: string) => ({ provider: 'mock', modelId });
+const ask = (content: string) => [{ role: 'user' as const, content }];
+
+async function collect(stream: AsyncGenerator<string>) {
+  const chunks: string[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return chunks;
+}
+
+beforeEach(() => {
+  // A fresh provider restarts every script
+  registerProvider(createMockProvider(fixtures));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('mock provider', () => {
+  it('streams the scripted chunks in order and reports usage', async () => {
+    let info: ResponseInfo | undefined;
+    const chunks = await collect(streamAIResponse(ask('hi'), model('chunks'), { onComplete: (i) => { info = i; } }));
+
+    expect(chunks).toEqual(['Hel', 'lo', '!']);
+    expect(info?.usage).toEqual({ promptTokens: 5, completionTokens: 2 });
+    expect(info?.model).toEqual(model('chunks'));
+  });
+
+  it('joins the chunks for non-streaming requests', async () => {
+    await expect(generateAIResponse(ask('hi'), model('chunks'))).resolves.toBe('Hello!');
+  });
+
+  it('picks steps whose match appears in the last user message', async () => {
+    await expect(generateAIResponse(ask('what is the weather?'), model('matched'))).resolves.toBe('Sunny.');
+    await expect(generateAIResponse(ask('and now?'), model('matched'))).resolves.toBe('Anything else.');
+  });
+
+  it('echoes once the script is used up', async () => {
+    await generateAIResponse(ask('first'), model('chunks'));
+    await expect(generateAIResponse(ask('second'), model('chunks'))).resolves.toBe('Mock reply to: second');
+  });
+
+  it('retries after a rate limit', async () => {
+    await expect(generateAIResponse(ask('hi'), model('flaky'))).resolves.toBe('Recovered.');
+  });
+
+  it('surfaces HTTP errors as provider errors', async () => {
+    await expect(generateAIResponse(ask('hi'), model('unauthorized'))).rejects.toBeInstanceOf(AuthError);
+  });
+
+  it('falls back to the next model when one fails', async () => {
+    const chunks = await collect(streamAIResponse(ask('hi'), model('unauthorized'), { fallbacks: [model('chunks')] }));
+    expect(chunks.join('')).toBe('Hello!');
+  });
+
+  it('reports network failures once retries are exhausted', async () => {
+    // Skip the real backoff between retries
+    vi.useFakeTimers();
+    const reply = expect(generateAIResponse(ask('hi'), model('offline'))).rejects.toBeInstanceOf(NetworkError);
+    await vi.runAllTimersAsync();
+    await reply;
+  });
+
+  it('stops streaming when aborted', async () => {
+    const controller = new AbortController();
+    const chunks: string[] = [];
+    const error = await (async () => {
+      for await (const chunk of streamAIResponse(ask('hi'), model('slow'), { signal: controller.signal })) {
+        chunks.push(chunk);
+        controller.abort();
+      }
+    })().catch(e => e);
+
+    expect(chunks).toEqual(['One']);
+    expect(isAbortError(error)).toBe(true);
+  });
+
+  it('delivers tool calls through onComplete', async () => {
+    let info: ResponseInfo | undefined;
+    await collect(streamAIResponse(ask('add'), model('tools'), { onComplete: (i) => { info = i; } }));
+    expect(info?.toolCalls).toEqual([{ id: 'call_1', name: 'calculator', arguments: { expression: '1 + 1' } }]);
+  });
+});
+
+describe('generateStructuredResponse', () => {
+  const schema = { type: 'object' as const, properties: { total: { type: 'number' as const } }, required: ['total'] };
+
+  it('re-prompts until the reply matches the schema', async () => {
+    const { data } = await generateStructuredResponse(ask('receipt'), model('json'), schema);
+    expect(data).toEqual({ total: 12 });
+  });
+
+  it('gives up after a few invalid replies', async () => {
+    await expect(generateStructuredResponse(ask('receipt'), model('badJson'), schema))
+      .rejects.toBeInstanceOf(SchemaValidationError);
+  });
+});
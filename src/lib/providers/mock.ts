@@ -0,0 +1,159 @@
+import { estimateTokens, type ToolCall } from '../context';
+import { sleep } from '../errors';
+import { createOpenAICompatibleProvider } from './openaiCompatible';
+import type { AIProvider, TokenUsage } from './types';
+
+// One scripted reply. Steps are used in order; a step with `match` is skipped
+// unless the last user message contains that text.
+export interface MockStep {
+  match?: string;
+  // Wait before responding, e.g. to try the Stop button or the request timeout
+  delayMs?: number;
+  // Respond with this HTTP status instead of a reply (429, 500, 401...)
+  status?: number;
+  headers?: Record<string, string>;
+  // Fail as if the server could not be reached
+  networkError?: boolean;
+  // The reply, streamed in these pieces; joined for non-streaming requests
+  chunks?: string[];
+  // Pause between streamed pieces
+  chunkDelayMs?: number;
+  toolCalls?: ToolCall[];
+  // Reported usage; estimated from the text when left out
+  usage?: TokenUsage;
+}
+
+// A fixture file. Each fixture becomes one model of the mock provider.
+export interface MockFixture {
+  name: string;
+  steps: MockStep[];
+  // Start over once every step has been used. Otherwise later requests are
+  // answered by echoing the last user message.
+  loop?: boolean;
+}
+
+interface MockRequest {
+  model: string;
+  messages: { role: string; content: unknown }[];
+  stream?: boolean;
+}
+
+function textOf(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content.map(part => (part as { text?: string }).text ?? '').join('');
+  }
+  return '';
+}
+
+function completionChunk(model: string, delta: object) {
+  return `data: ${JSON.stringify({ model, choices: [{ delta }] })}\n\n`;
+}
+
+// Replays each fixture's steps for requests to its model, speaking the OpenAI
+// chat completions protocol so the real request building, SSE parsing, retry
+// and error handling all run.
+export function createMockFetch(fixtures: Record<string, MockFixture>) {
+  const cursors = new Map<string, number>();
+
+  const nextStep = (modelId: string, prompt: string): MockStep => {
+    const fixture = fixtures[modelId];
+    const echo = { chunks: [`Mock reply to: ${prompt}`] };
+    if (!fixture) return echo;
+
+    const find = (from: number) => fixture.steps.findIndex((step, i) =>
+      i >= from && (step.match === undefined || prompt.includes(step.match))
+    );
+    let index = find(cursors.get(modelId) ?? 0);
+    if (index === -1 && fixture.loop) index = find(0);
+    if (index === -1) return echo;
+
+    cursors.set(modelId, index + 1);
+    return fixture.steps[index];
+  };
+
+  return async (_url: string, init: RequestInit): Promise<Response> => {
+    const signal = init.signal;
+    const request: MockRequest = JSON.parse(init.body as string);
+    const userMessages = request.messages.filter(m => m.role === 'user');
+    const prompt = textOf(userMessages[userMessages.length - 1]?.content);
+    const step = nextStep(request.model, prompt);
+
+    if (step.delayMs) await sleep(step.delayMs, signal);
+    if (step.networkError) throw new TypeError('Failed to fetch');
+    if (step.status) {
+      return new Response(JSON.stringify({ error: { message: `Mock error ${step.status}` } }), {
+        status: step.status,
+        headers: step.headers,
+      });
+    }
+
+    const chunks = step.chunks ?? [];
+    const text = chunks.join('');
+    const usage = step.usage ?? {
+      promptTokens: request.messages.reduce((total, m) => total + estimateTokens(textOf(m.content)), 0),
+      completionTokens: estimateTokens(text),
+    };
+    const toolCalls = step.toolCalls?.map(call => ({
+      id: call.id,
+      type: 'function',
+      function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+    }));
+    const usageBody = { prompt_tokens: usage.promptTokens, completion_tokens: usage.completionTokens };
+
+    if (!request.stream) {
+      return Response.json({
+        model: request.model,
+        choices: [{ message: { content: toolCalls && !text ? null : text, tool_calls: toolCalls } }],
+        usage: usageBody,
+      });
+    }
+
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        try {
+          for (let i = 0; i < chunks.length; i++) {
+            if (i > 0 && step.chunkDelayMs) await sleep(step.chunkDelayMs, signal);
+            controller.enqueue(encoder.encode(completionChunk(request.model, { content: chunks[i] })));
+          }
+          toolCalls?.forEach((call, index) => {
+            controller.enqueue(encoder.encode(completionChunk(request.model, { tool_calls: [{ index, ...call }] })));
+          });
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ model: request.model, choices: [], usage: usageBody })}\n\n`));
+          controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+          controller.close();
+        } catch (error) {
+          controller.error(error);
+        }
+      },
+    });
+
+    return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+  };
+}
+
+export function createMockProvider(fixtures: Record<string, MockFixture>): AIProvider {
+  return createOpenAICompatibleProvider({
+    id: 'mock',
+    name: 'Mock',
+    baseUrl: 'mock://',
+    models: Object.entries(fixtures).map(([id, fixture]) => ({
+      id,
+      name: fixture.name,
+      contextWindow: 32768,
+      reservedOutputTokens: 2048,
+      supportsImages: true,
+      supportsTools: true,
+    })),
+    fetch: createMockFetch(fixtures),
+  });
+}
+
+// Fixtures in ./mockFixtures, keyed by file name
+export function loadMockFixtures(): Record<string, MockFixture> {
+  const modules = import.meta.glob<MockFixture>('./mockFixtures/*.json', { eager: true, import: 'default' });
+  return Object.fromEntries(
+    Object.entries(modules).map(([path, fixture]) => [path.replace(/^.*\/(.+)\.json$/, '$1'), fixture])
+  );
+}
@@ -0,0 +1,168 @@
+import type { ChatMessage, ToolCall } from '../context';
+import type { AIProvider, ModelInfo, ProviderOutput } from './types';
+
+export interface OpenAICompatibleConfig {
+  id: string;
+  name: string;
+  // Base URL of the API, e.g. http://localhost:11434/v1 for Ollama
+  baseUrl: string;
+  apiKey?: string;
+  models: ModelInfo[];
+  headers?: Record<string, string>;
+  streaming?: boolean;
+  // Server accepts response_format with a JSON schema
+  structuredOutput?: boolean;
+  fetch?: (url: string, init: RequestInit) => Promise<Response>;
+}
+
+interface CompletionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface CompletionToolCall {
+  index?: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+interface ChatCompletion {
+  model?: string;
+  choices?: { message?: { content?: string | null; tool_calls?: CompletionToolCall[] } }[];
+  usage?: CompletionUsage;
+}
+
+interface ChatCompletionChunk {
+  model?: string;
+  choices?: { delta?: { content?: string | null; tool_calls?: CompletionToolCall[] } }[];
+  usage?: CompletionUsage | null;
+}
+
+function parseUsage(usage?: CompletionUsage | null): ProviderOutput['usage'] {
+  if (!usage) return undefined;
+  return {
+    promptTokens: usage.prompt_tokens ?? 0,
+    completionTokens: usage.completion_tokens ?? 0,
+  };
+}
+
+function parseToolCall(call: CompletionToolCall): ToolCall {
+  if (!call.id || !call.function?.name) {
+    throw new Error('Tool call without id or name');
+  }
+  return {
+    id: call.id,
+    name: call.function.name,
+    arguments: call.function.arguments ? JSON.parse(call.function.arguments) : {},
+  };
+}
+
+// Images are sent as data URLs in image_url content parts
+function toOpenAIMessage({ role, content, images, toolCalls, toolCallId }: ChatMessage) {
+  if (role === 'tool') return { role, content, tool_call_id: toolCallId };
+  if (toolCalls?.length) {
+    return {
+      role,
+      content: content || null,
+      tool_calls: toolCalls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+      }))
+    };
+  }
+  if (!images?.length) return { role, content };
+  return {
+    role,
+    content: [
+      { type: 'text', text: content },
+      ...images.map(image => ({
+        type: 'image_url',
+        image_url: { url: `data:${image.mimeType};base64,${image.data}` }
+      }))
+    ]
+  };
+}
+
+// Any server speaking the OpenAI /chat/completions protocol: OpenRouter,
+// Ollama, llama.cpp's server, vLLM, LM Studio...
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): AIProvider {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+  return {
+    id: config.id,
+    name: config.name,
+    models: config.models,
+    fetch: config.fetch,
+    capabilities: {
+      streaming: config.streaming ?? true,
+      structuredOutput: config.structuredOutput ?? true,
+    },
+
+    buildRequest({ modelId, history, systemPrompt, params = {}, tools, responseSchema, stream }) {
+      return {
+        url: `${baseUrl}/chat/completions`,
+        init: {
+          method: 'POST',
+          headers: {
+            ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}),
+            ...config.headers,
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({
+            model: modelId,
+            messages: [
+              ...(systemPrompt ? [{ role: 'system', content: systemPrompt }] : []),
+              ...history.map(toOpenAIMessage)
+            ],
+            temperature: params.temperature,
+            top_p: params.topP,
+            max_tokens: params.maxTokens,
+            stop: params.stopSequences?.length ? params.stopSequences : undefined,
+            tools: tools?.length
+              ? tools.map(tool => ({ type: 'function', function: tool }))
+              : undefined,
+            response_format: responseSchema
+              ? { type: 'json_schema', json_schema: { name: 'response', schema: responseSchema } }
+              : undefined,
+            stream,
+            // Ask for token usage in the final chunk of a stream
+            stream_options: stream ? { include_usage: true } : undefined
+          })
+        }
+      };
+    },
+
+    parseResponse(data) {
+      const completion = data as ChatCompletion;
+      const message = completion.choices?.[0]?.message;
+      const toolCalls = message?.tool_calls?.map(parseToolCall);
+      // Replies that only call tools have no content
+      if (typeof message?.content !== 'string' && !toolCalls?.length) {
+        throw new Error('Unexpected chat completion response');
+      }
+      return {
+        text: message?.content ?? '',
+        usage: parseUsage(completion.usage),
+        model: completion.model,
+        toolCalls,
+      };
+    },
+
+    parseStreamEvent(data) {
+      const chunk = data as ChatCompletionChunk;
+      const delta = chunk.choices?.[0]?.delta;
+      return {
+        text: delta?.content ?? undefined,
+        usage: parseUsage(chunk.usage),
+        model: chunk.model,
+        toolCallDeltas: delta?.tool_calls?.map((call, i) => ({
+          index: call.index ?? i,
+          id: call.id,
+          name: call.function?.name,
+          arguments: call.function?.arguments,
+        })),
+      };
+    },
+  };
+}
@@ -0,0 +1,17 @@
+import { createOpenAICompatibleProvider } from './openaiCompatible';
+
+const OPENROUTER_API_KEY = 'use yor api key';
+
+export const openRouterProvider = createOpenAICompatibleProvider({
+  id: 'openrouter',
+  name: 'OpenRouter',
+  baseUrl: 'https://openrouter.ai/api/v1',
+  apiKey: OPENROUTER_API_KEY,
+  headers: {
+    'HTTP-Referer': window.location.origin,
+    'X-Title': 'Neural Core AI',
+  },
+  models: [
+    { id: 'deepseek/deepseek-r1-distill-llama-70b:free', name: 'DeepSeek 70B', contextWindow: 131072, reservedOutputTokens: 8192 },
+  ],
+});
@@ -0,0 +1,101 @@
+import type { ChatMessage, ToolCall } from '../context';
+
+export interface ModelInfo {
+  id: string;
+  name: string;
+  // Total token limit of the model
+  contextWindow: number;
+  // Tokens kept free for the reply when the history is trimmed to fit
+  reservedOutputTokens: number;
+  // Accepts images as message content parts
+  supportsImages?: boolean;
+  // Supports function calling
+  supportsTools?: boolean;
+}
+
+export interface ProviderCapabilities {
+  // Supports incremental responses over Server-Sent Events
+  streaming: boolean;
+  // Can constrain the reply to JSON matching a schema
+  structuredOutput: boolean;
+}
+
+// Sampling parameters; anything left undefined uses the provider default
+export interface GenerationParams {
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  stopSequences?: string[];
+}
+
+// A function the model may call; `parameters` is a JSON schema object
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+}
+
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+}
+
+export interface ProviderRequest {
+  modelId: string;
+  history: ChatMessage[];
+  systemPrompt?: string;
+  params?: GenerationParams;
+  tools?: ToolDefinition[];
+  // Ask for a JSON reply matching this schema
+  responseSchema?: JsonSchema;
+  stream: boolean;
+}
+
+// Part of a tool call as it arrives in a stream. A delta with an id starts a
+// new call; later deltas for the same index append to its arguments.
+export interface ToolCallDelta {
+  index: number;
+  id?: string;
+  name?: string;
+  arguments?: string;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+// What a provider reports back; streamed events usually carry only one field
+export interface ProviderOutput {
+  text?: string;
+  usage?: TokenUsage;
+  // Exact model version that served the request, when the API reports it
+  model?: string;
+  toolCalls?: ToolCall[];
+  // Streamed events only
+  toolCallDeltas?: ToolCallDelta[];
+}
+
+export interface HttpRequest {
+  url: string;
+  init: RequestInit;
+}
+
+export interface AIProvider {
+  id: string;
+  name: string;
+  models: ModelInfo[];
+  capabilities: ProviderCapabilities;
+  // Maps a chat request onto the provider's HTTP API
+  buildRequest(request: ProviderRequest): HttpRequest;
+  // Extracts the reply from a complete (non-streaming) response body
+  parseResponse(data: unknown): ProviderOutput & { text: string };
+  // Extracts the text delta and any usage from one streamed SSE event payload
+  parseStreamEvent(data: unknown): ProviderOutput;
+  // Replaces the global fetch, e.g. for providers that answer in-process
+  fetch?: (url: string, init: RequestInit) => Promise<Response>;
+}
@@ -0,0 +1,82 @@
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { generateAIResponse, generateStructuredResponse, streamAIResponse, type ResponseInfo } from './ai';
+import { createMockProvider, registerProvider } from './providers';
+import { cacheKey, clearCache } from './responseCache';
+
+const model = { provider: 'mock', modelId: 'counter' };
+const cache = { ttlMs: 60000, shared: false };
+const ask = (content: string) => [{ role: 'user' as const, content }];
+
+beforeEach(() => {
+  // Every request gets a different reply, so a repeated reply must be cached
+  registerProvider(createMockProvider({
+    counter: { name: 'Counter', loop: true, steps: [{ chunks: ['first'] }, { chunks: ['second'] }, { chunks: ['third'] }] },
+  }));
+});
+
+afterEach(async () => {
+  vi.useRealTimers();
+  await clearCache();
+});
+
+describe('cacheKey', () => {
+  it('ignores whitespace differences', async () => {
+    expect(await cacheKey(ask('What is  this?\n'), model)).toBe(await cacheKey(ask('What is this?'), model));
+  });
+
+  it('changes with the model, parameters and history', async () => {
+    const base = await cacheKey(ask('hi'), model);
+    expect(await cacheKey(ask('hi'), { ...model, modelId: 'other' })).not.toBe(base);
+    expect(await cacheKey(ask('hi'), model, { params: { temperature: 0.2 } })).not.toBe(base);
+    expect(await cacheKey(ask('hello'), model)).not.toBe(base);
+  });
+});
+
+describe('response cache', () => {
+  it('answers a repeated request from the cache', async () => {
+    const infos: ResponseInfo[] = [];
+    const options = { cache, onComplete: (info: ResponseInfo) => { infos.push(info); } };
+
+    expect(await generateAIResponse(ask('hi'), model, options)).toBe('first');
+    expect(await generateAIResponse(ask('hi '), model, options)).toBe('first');
+    expect(infos.map(info => info.cached)).toEqual([undefined, true]);
+    // Only the first one was paid for
+    expect(infos.map(info => !!info.usage)).toEqual([true, false]);
+  });
+
+  it('serves streamed replies too', async () => {
+    const stream = async () => {
+      let text = '';
+      for await (const chunk of streamAIResponse(ask('hi'), model, { cache })) text += chunk;
+      return text;
+    };
+    expect(await stream()).toBe('first');
+    expect(await stream()).toBe('first');
+  });
+
+  it('is not used unless asked for', async () => {
+    await generateAIResponse(ask('hi'), model, { cache });
+    expect(await generateAIResponse(ask('hi'), model)).toBe('second');
+  });
+
+  it('expires entries after the TTL', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    await generateAIResponse(ask('hi'), model, { cache });
+    vi.setSystemTime(Date.now() + cache.ttlMs + 1);
+    expect(await generateAIResponse(ask('hi'), model, { cache })).toBe('second');
+  });
+
+  it('only caches structured replies that pass validation', async () => {
+    registerProvider(createMockProvider({
+      counter: { name: 'Counter', loop: true, steps: [{ chunks: ['not json'] }, { chunks: ['{"n":1}'] }, { chunks: ['{"n":2}'] }] },
+    }));
+    const schema = { type: 'object' as const, required: ['n'] };
+    const infos: ResponseInfo[] = [];
+    const options = { cache, onComplete: (info: ResponseInfo) => { infos.push(info); } };
+
+    expect((await generateStructuredResponse(ask('n?'), model, schema, options)).data).toEqual({ n: 1 });
+    expect((await generateStructuredResponse(ask('n?'), model, schema, options)).data).toEqual({ n: 1 });
+    expect(infos.map(info => info.cached)).toEqual([undefined, true]);
+  });
+});
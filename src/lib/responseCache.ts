@@ -0,0 +1,145 @@
+import { supabase } from './supabase';
+import type { AIModel, ChatMessage, GenerateOptions, TokenUsage, ToolCall } from './ai';
+
+export interface CacheOptions {
+  // Entries older than this are ignored and requested again
+  ttlMs: number;
+  // Also look up and store replies in the response_cache table, so they
+  // follow the user to other devices; users only see their own entries
+  shared: boolean;
+}
+
+export interface CachedResponse {
+  text: string;
+  model: AIModel;
+  usage?: TokenUsage;
+  toolCalls?: ToolCall[];
+}
+
+interface CacheEntry extends CachedResponse {
+  key: string;
+  createdAt: number;
+}
+
+const DB_NAME = 'neural-core';
+const STORE = 'responses';
+
+let database: Promise<IDBDatabase> | null = null;
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise((resolve, reject) => {
+    const open = indexedDB.open(DB_NAME, 1);
+    open.onupgradeneeded = () => open.result.createObjectStore(STORE, { keyPath: 'key' });
+    open.onsuccess = () => resolve(open.result);
+    open.onerror = () => {
+      database = null;
+      reject(open.error);
+    };
+  });
+  return database;
+}
+
+async function store(mode: IDBTransactionMode) {
+  return (await openDatabase()).transaction(STORE, mode).objectStore(STORE);
+}
+
+// Whitespace and message ids don't change the answer, so they don't change the key
+function normalizeMessage(message: ChatMessage) {
+  return {
+    role: message.role,
+    content: message.content.trim().replace(/\s+/g, ' '),
+    images: message.images?.map(image => [image.mimeType, image.data]),
+    toolCalls: message.toolCalls?.map(call => [call.name, call.arguments]),
+    toolName: message.toolName,
+  };
+}
+
+// SHA-256 of everything that shapes the reply
+export async function cacheKey(history: ChatMessage[], model: AIModel, options: GenerateOptions = {}): Promise<string> {
+  const input = JSON.stringify({
+    provider: model.provider,
+    model: model.modelId,
+    systemPrompt: options.systemPrompt?.trim().replace(/\s+/g, ' ') ?? '',
+    params: options.params ?? {},
+    tools: options.tools ?? [],
+    responseSchema: options.responseSchema ?? null,
+    history: history.map(normalizeMessage),
+  });
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function readShared(key: string, since: number): Promise<CacheEntry | null> {
+  const { data, error } = await supabase
+    .from('response_cache')
+    .select('*')
+    .eq('key', key)
+    .gte('created_at', new Date(since).toISOString())
+    .maybeSingle();
+
+  if (error || !data) return null;
+  return {
+    key,
+    text: data.content,
+    model: { provider: data.model_provider, modelId: data.model_id },
+    usage: data.usage ?? undefined,
+    toolCalls: data.tool_calls ?? undefined,
+    createdAt: Date.parse(data.created_at),
+  };
+}
+
+// A cache miss, an expired entry and an unavailable cache all return null
+export async function readCache(key: string, options: CacheOptions): Promise<CachedResponse | null> {
+  const since = Date.now() - options.ttlMs;
+  try {
+    const entry: CacheEntry | undefined = await request((await store('readonly')).get(key));
+    if (entry && entry.createdAt >= since) return entry;
+  } catch (error) {
+    console.warn('Response cache unavailable:', error);
+  }
+
+  if (!options.shared) return null;
+  const entry = await readShared(key, since);
+  if (entry) {
+    // Keep a local copy so the next hit skips the network
+    await request((await store('readwrite')).put(entry)).catch(() => undefined);
+  }
+  return entry;
+}
+
+export async function writeCache(key: string, response: CachedResponse, options: CacheOptions) {
+  const entry: CacheEntry = { ...response, key, createdAt: Date.now() };
+  try {
+    await request((await store('readwrite')).put(entry));
+  } catch (error) {
+    console.warn('Response cache unavailable:', error);
+  }
+
+  if (options.shared) {
+    const { error } = await supabase
+      .from('response_cache')
+      // The row's owner defaults to the signed-in user, and is part of the key
+      .upsert({
+        key,
+        content: response.text,
+        model_provider: response.model.provider,
+        model_id: response.model.modelId,
+        usage: response.usage ?? null,
+        tool_calls: response.toolCalls ?? null,
+        created_at: new Date(entry.createdAt).toISOString(),
+      }, { onConflict: 'created_by,key' });
+    if (error) console.warn('Could not share cached response:', error);
+  }
+}
+
+// Empties the local cache; shared entries expire on their own
+export async function clearCache() {
+  await request((await store('readwrite')).clear());
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { evaluate, inspect, type ConsoleEntry } from './sandbox';
+import { buildRunnerDocument, transpile } from './codeRunner';
+
+async function run(code: string) {
+  const entries: ConsoleEntry[] = [];
+  const ok = await evaluate(code, entry => entries.push(entry));
+  return { ok, entries };
+}
+
+describe('evaluate', () => {
+  it('captures console output and the value of the last expression', async () => {
+    const { ok, entries } = await run('console.log("sum", 1 + 2); console.warn({ a: [1, "b"] }); [1, 2].map(n => n * 2)');
+    expect(ok).toBe(true);
+    expect(entries).toEqual([
+      { level: 'log', text: 'sum 3' },
+      { level: 'warn', text: '{ a: [1, "b"] }' },
+      { level: 'result', text: '[2, 4]' },
+    ]);
+  });
+
+  it('reports thrown errors', async () => {
+    const { ok, entries } = await run('console.log("before"); null.x');
+    expect(ok).toBe(false);
+    expect(entries[0]).toEqual({ level: 'log', text: 'before' });
+    expect(entries[1].level).toBe('error');
+    expect(entries[1].text).toContain('TypeError');
+  });
+
+  it('supports top-level await', async () => {
+    const { entries } = await run('const value = await Promise.resolve(42); console.log(value)');
+    expect(entries).toEqual([{ level: 'log', text: '42' }]);
+  });
+
+  it('waits for timers the code started', async () => {
+    const { entries } = await run('setTimeout(() => console.log("later"), 20); console.log("now")');
+    expect(entries.map(entry => entry.text)).toEqual(['now', 'later']);
+  });
+});
+
+describe('inspect', () => {
+  it('handles circular and nested values', () => {
+    const value: Record<string, unknown> = { name: 'x', set: new Set([1]) };
+    value.self = value;
+    expect(inspect(value)).toBe('{ name: "x", set: Set(1) { 1 }, self: [Circular] }');
+  });
+});
+
+describe('transpile', () => {
+  it('strips TypeScript types', () => {
+    expect(transpile('const n: number = 1;\ninterface A { b: string }\nn', 'ts').replace(/\s+/g, ' ').trim()).toBe('const n = 1; n');
+  });
+
+  it('leaves JavaScript alone', () => {
+    expect(transpile('const a = 1', 'javascript')).toBe('const a = 1');
+  });
+});
+
+describe('buildRunnerDocument', () => {
+  it('blocks the network in the runner frame', () => {
+    expect(buildRunnerDocument()).toContain(`connect-src 'none'`);
+  });
+
+  it('embeds a worker script that runs on its own', async () => {
+    const literal = buildRunnerDocument().match(/new Blob\(\[("(?:[^"\\]|\\.)*")\]/)![1];
+    const posted: unknown[] = [];
+    const scope = {
+      postMessage: (message: unknown) => posted.push(message),
+      addEventListener: () => {},
+      onmessage: null as null | ((event: { data: { code: string } }) => Promise<void>),
+    };
+    new Function('self', JSON.parse(literal))(scope);
+
+    await scope.onmessage!({ data: { code: 'console.log(1 + 1)' } });
+    expect(posted).toEqual([
+      { type: 'entry', entry: { level: 'log', text: '2' } },
+      { type: 'done', ok: true },
+    ]);
+  });
+});
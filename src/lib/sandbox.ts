@@ -0,0 +1,130 @@
+// Evaluates user code and captures what it prints. Runs inside the code
+// runner's worker (see codeRunner.ts), which enforces the time limit.
+
+export type ConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'result';
+
+export interface ConsoleEntry {
+  level: ConsoleLevel;
+  text: string;
+}
+
+const MAX_DEPTH = 3;
+
+// A short, readable rendering of any value, in the spirit of Node's util.inspect
+export function inspect(value: unknown, depth = 0, seen = new WeakSet<object>()): string {
+  if (typeof value === 'string') return depth === 0 ? value : JSON.stringify(value);
+  if (typeof value === 'bigint') return `${value}n`;
+  if (typeof value === 'symbol') return value.toString();
+  if (typeof value === 'function') return `[Function ${value.name || '(anonymous)'}]`;
+  if (value === null || typeof value !== 'object') return String(value);
+
+  if (value instanceof Error) return value.stack || `${value.name}: ${value.message}`;
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof RegExp) return value.toString();
+  if (seen.has(value)) return '[Circular]';
+  if (depth >= MAX_DEPTH) return Array.isArray(value) ? '[Array]' : '[Object]';
+
+  seen.add(value);
+  const child = (item: unknown) => inspect(item, depth + 1, seen);
+  let text: string;
+  if (Array.isArray(value)) {
+    text = `[${value.map(child).join(', ')}]`;
+  } else if (value instanceof Map) {
+    text = `Map(${value.size}) {${Array.from(value, ([k, v]) => ` ${child(k)} => ${child(v)}`).join(',')} }`;
+  } else if (value instanceof Set) {
+    text = `Set(${value.size}) {${Array.from(value, v => ` ${child(v)}`).join(',')} }`;
+  } else {
+    const entries = Object.entries(value).map(([key, item]) => `${key}: ${child(item)}`);
+    text = entries.length ? `{ ${entries.join(', ')} }` : '{}';
+  }
+  seen.delete(value);
+  return text;
+}
+
+// Strings quoted, as a value rather than as printed text
+function describe(value: unknown): string {
+  return typeof value === 'string' ? JSON.stringify(value) : inspect(value);
+}
+
+// Direct eval inside this function sees `console` and the timer functions as
+// the sandbox's own, and returns the value of the last expression statement
+const run = new Function('console', 'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', '__code', 'return eval(__code)');
+
+// Runs `code`, reporting console output, errors and the final value through
+// `write`. Resolves once the code and any timers it started have finished;
+// false when anything threw.
+export async function evaluate(code: string, write: (entry: ConsoleEntry) => void): Promise<boolean> {
+  let ok = true;
+  const fail = (error: unknown) => {
+    ok = false;
+    write({ level: 'error', text: error instanceof Error ? inspect(error) : `Uncaught ${describe(error)}` });
+  };
+
+  const print = (level: ConsoleLevel) => (...args: unknown[]) => {
+    write({ level, text: args.map(arg => inspect(arg)).join(' ') });
+  };
+  const sandboxConsole = {
+    log: print('log'),
+    info: print('info'),
+    debug: print('log'),
+    warn: print('warn'),
+    error: print('error'),
+  };
+
+  // Timers are tracked so the run isn't over while callbacks are still due
+  const timers = new Set<ReturnType<typeof setTimeout>>();
+  let onIdle = () => {};
+  const checkIdle = () => setTimeout(() => timers.size === 0 && onIdle());
+
+  const guard = (callback: (...args: unknown[]) => void, args: unknown[]) => () => {
+    try {
+      callback(...args);
+    } catch (error) {
+      fail(error);
+    }
+  };
+  const sandboxSetTimeout = (callback: (...args: unknown[]) => void, delay?: number, ...args: unknown[]) => {
+    const id = setTimeout(() => {
+      timers.delete(id);
+      guard(callback, args)();
+      checkIdle();
+    }, delay);
+    timers.add(id);
+    return id;
+  };
+  const sandboxSetInterval = (callback: (...args: unknown[]) => void, delay?: number, ...args: unknown[]) => {
+    const id = setInterval(guard(callback, args), delay);
+    timers.add(id);
+    return id;
+  };
+  const sandboxClear = (id: ReturnType<typeof setTimeout>) => {
+    clearTimeout(id);
+    timers.delete(id);
+    checkIdle();
+  };
+
+  const execute = (source: string) =>
+    run(sandboxConsole, sandboxSetTimeout, sandboxClear, sandboxSetInterval, sandboxClear, source);
+
+  try {
+    let result: unknown;
+    try {
+      result = execute(code);
+    } catch (error) {
+      // Top-level await only parses inside an async function, at the cost of
+      // the completion value
+      if (!(error instanceof SyntaxError) || !code.includes('await')) throw error;
+      result = await execute(`(async () => {\n${code}\n})()`);
+    }
+    if (result instanceof Promise) result = await result;
+    if (result !== undefined) write({ level: 'result', text: describe(result) });
+  } catch (error) {
+    fail(error);
+  }
+
+  await new Promise<void>(resolve => {
+    onIdle = resolve;
+    checkIdle();
+  });
+  return ok;
+}
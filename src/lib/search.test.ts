@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { NO_FILTERS, hasFilters, searchParams, snippetParts } from './search';
+
+describe('snippetParts', () => {
+  it('splits a snippet into plain text and matches', () => {
+    expect(snippetParts('we fixed the \u0002RLS\u0003 \u0002policy\u0003 today')).toEqual([
+      { text: 'we fixed the ', match: false },
+      { text: 'RLS', match: true },
+      { text: ' ', match: false },
+      { text: 'policy', match: true },
+      { text: ' today', match: false },
+    ]);
+  });
+
+  it('keeps snippets without matches as they are', () => {
+    expect(snippetParts('nothing marked')).toEqual([{ text: 'nothing marked', match: false }]);
+    expect(snippetParts('')).toEqual([]);
+  });
+});
+
+describe('searchParams', () => {
+  it('leaves out empty filters', () => {
+    expect(searchParams('  rls policy ', NO_FILTERS)).toEqual({
+      search_query: 'rls policy',
+      date_from: null,
+      date_to: null,
+      message_role: null,
+      message_model: null,
+    });
+    expect(hasFilters(NO_FILTERS)).toBe(false);
+  });
+
+  it('includes the whole last day of the range', () => {
+    const filters = { ...NO_FILTERS, from: '2026-03-01', to: '2026-03-31', role: 'assistant' as const };
+    const params = searchParams('rls', filters);
+
+    expect(params.date_from).toBe(new Date(2026, 2, 1).toISOString());
+    expect(params.date_to).toBe(new Date(2026, 3, 1).toISOString());
+    expect(params.message_role).toBe('assistant');
+    expect(hasFilters(filters)).toBe(true);
+  });
+});
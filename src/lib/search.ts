@@ -0,0 +1,76 @@
+import { supabase } from './supabase';
+
+export interface SearchFilters {
+  // Calendar days from date inputs (`yyyy-mm-dd`), both included; empty
+  // for no limit
+  from: string;
+  to: string;
+  role: '' | 'user' | 'assistant';
+  modelId: string;
+}
+
+export const NO_FILTERS: SearchFilters = { from: '', to: '', role: '', modelId: '' };
+
+export interface SearchResult {
+  conversation_id: string;
+  conversation_title: string;
+  // Null when the conversation's title matched
+  message_id: string | null;
+  role: string | null;
+  model_id: string | null;
+  created_at: string;
+  // Matched words are marked, see `snippetParts`
+  snippet: string;
+  rank: number;
+}
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+// Set around matched words by the search function
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+
+export function hasFilters(filters: SearchFilters): boolean {
+  return Object.values(filters).some(Boolean);
+}
+
+// Arguments for `search_conversations`. Days are local, so "to" ends at the
+// start of the next local day.
+export function searchParams(query: string, filters: SearchFilters) {
+  const day = (value: string, offset = 0) => {
+    const [year, month, date] = value.split('-').map(Number);
+    return new Date(year, month - 1, date + offset).toISOString();
+  };
+  return {
+    search_query: query.trim(),
+    date_from: filters.from ? day(filters.from) : null,
+    date_to: filters.to ? day(filters.to, 1) : null,
+    message_role: filters.role || null,
+    message_model: filters.modelId || null,
+  };
+}
+
+// The best matches for `query` across the user's conversations
+export async function searchConversations(query: string, filters: SearchFilters): Promise<SearchResult[]> {
+  const { data, error } = await supabase.rpc('search_conversations', searchParams(query, filters));
+  if (error) throw new Error(error.message);
+  return data ?? [];
+}
+
+// A snippet split into plain text and the matched words to highlight
+export function snippetParts(snippet: string): SnippetPart[] {
+  const parts: SnippetPart[] = [];
+  for (const piece of snippet.split(MATCH_START)) {
+    const end = piece.indexOf(MATCH_END);
+    if (end === -1) {
+      if (piece) parts.push({ text: piece, match: false });
+      continue;
+    }
+    if (end > 0) parts.push({ text: piece.slice(0, end), match: true });
+    if (end < piece.length - 1) parts.push({ text: piece.slice(end + 1), match: false });
+  }
+  return parts;
+}
@@ -0,0 +1,105 @@
+import type { AIModel } from './ai';
+import { hasModel } from './providers';
+
+const FALLBACK_MODELS_KEY = 'neural-core-fallback-models';
+
+// Models tried in order when the selected model fails. Entries whose
+// provider is no longer configured are skipped.
+export function loadFallbackModels(): AIModel[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(FALLBACK_MODELS_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter((m: AIModel) => hasModel(m.provider, m.modelId)) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveFallbackModels(models: AIModel[]) {
+  localStorage.setItem(FALLBACK_MODELS_KEY, JSON.stringify(models));
+}
+
+const REASONING_PREFERENCES_KEY = 'neural-core-reasoning';
+
+export interface ReasoningPreferences {
+  // Keep <think> blocks in the saved message content
+  saveReasoning: boolean;
+  // Include earlier <think> blocks in the history sent to the model
+  sendReasoning: boolean;
+}
+
+const DEFAULT_REASONING_PREFERENCES: ReasoningPreferences = {
+  saveReasoning: true,
+  sendReasoning: false,
+};
+
+export function loadReasoningPreferences(): ReasoningPreferences {
+  try {
+    const stored = JSON.parse(localStorage.getItem(REASONING_PREFERENCES_KEY) ?? '{}');
+    return { ...DEFAULT_REASONING_PREFERENCES, ...stored };
+  } catch {
+    return DEFAULT_REASONING_PREFERENCES;
+  }
+}
+
+export function saveReasoningPreferences(preferences: ReasoningPreferences) {
+  localStorage.setItem(REASONING_PREFERENCES_KEY, JSON.stringify(preferences));
+}
+
+const OUTPUT_SCHEMA_KEY = 'neural-core-output-schema';
+
+// Starting point for JSON output: fields of a photographed receipt
+const DEFAULT_OUTPUT_SCHEMA = JSON.stringify({
+  type: 'object',
+  properties: {
+    merchant: { type: 'string' },
+    date: { type: 'string', description: 'YYYY-MM-DD' },
+    total: { type: 'number' },
+    items: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { name: { type: 'string' }, price: { type: 'number' } },
+        required: ['name', 'price'],
+      },
+    },
+  },
+  required: ['merchant', 'total'],
+}, null, 2);
+
+// The JSON schema text last used for structured output, as typed
+export function loadOutputSchema(): string {
+  return localStorage.getItem(OUTPUT_SCHEMA_KEY) ?? DEFAULT_OUTPUT_SCHEMA;
+}
+
+export function saveOutputSchema(schema: string) {
+  localStorage.setItem(OUTPUT_SCHEMA_KEY, schema);
+}
+
+const CACHE_PREFERENCES_KEY = 'neural-core-cache';
+
+export interface CachePreferences {
+  // Answer repeated requests from the response cache
+  enabled: boolean;
+  ttlHours: number;
+  // Keep cached replies in Supabase too, for the same user on other devices
+  shared: boolean;
+}
+
+const DEFAULT_CACHE_PREFERENCES: CachePreferences = {
+  enabled: false,
+  ttlHours: 24,
+  shared: false,
+};
+
+export function loadCachePreferences(): CachePreferences {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CACHE_PREFERENCES_KEY) ?? '{}');
+    return { ...DEFAULT_CACHE_PREFERENCES, ...stored };
+  } catch {
+    return DEFAULT_CACHE_PREFERENCES;
+  }
+}
+
+export function saveCachePreferences(preferences: CachePreferences) {
+  localStorage.setItem(CACHE_PREFERENCES_KEY, JSON.stringify(preferences));
+}
@@ -0,0 +1,49 @@
+// Minimal Server-Sent Events reader for fetch() responses.
+// Yields the payload of every `data:` field, one string per event.
+export async function* readServerSentEvents(response: Response): AsyncGenerator<string> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let data: string[] = [];
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        // A blank line terminates the current event
+        if (line === '') {
+          if (data.length > 0) {
+            yield data.join('\n');
+            data = [];
+          }
+          continue;
+        }
+
+        // Lines starting with ':' are comments (OpenRouter sends keep-alives this way)
+        if (line.startsWith(':')) continue;
+
+        if (line.startsWith('data:')) {
+          data.push(line.slice(5).replace(/^ /, ''));
+        }
+      }
+    }
+
+    // Flush an event that was not followed by a blank line
+    if (buffer.startsWith('data:')) {
+      data.push(buffer.slice(5).replace(/^ /, ''));
+    }
+    if (data.length > 0) {
+      yield data.join('\n');
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
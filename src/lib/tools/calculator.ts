@@ -0,0 +1,125 @@
+import type { Tool } from './types';
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  ln: Math.log,
+  log: Math.log10,
+  exp: Math.exp,
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+// Recursive descent over + - * / % ^, parentheses, unary minus, the
+// functions and constants above. Never hands the input to eval.
+export function evaluateExpression(expression: string): number {
+  const tokens = expression.match(/\d+(?:\.\d+)?(?:e[+-]?\d+)?|\.\d+|[a-z]+|[-+*/%^()]|\S/gi) ?? [];
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new Error(`Expected "${token}"`);
+  };
+
+  // sum := product (("+" | "-") product)*
+  const parseSum = (): number => {
+    let value = parseProduct();
+    while (peek() === '+' || peek() === '-') {
+      value = next() === '+' ? value + parseProduct() : value - parseProduct();
+    }
+    return value;
+  };
+
+  // product := power (("*" | "/" | "%") power)*
+  const parseProduct = (): number => {
+    let value = parsePower();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const operator = next();
+      const right = parsePower();
+      value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+
+  // power := unary ("^" power)?   (right associative)
+  const parsePower = (): number => {
+    const base = parseUnary();
+    if (peek() === '^') {
+      next();
+      return base ** parsePower();
+    }
+    return base;
+  };
+
+  // unary := ("-" | "+") unary | atom
+  const parseUnary = (): number => {
+    if (peek() === '-') {
+      next();
+      return -parseUnary();
+    }
+    if (peek() === '+') {
+      next();
+      return parseUnary();
+    }
+    return parseAtom();
+  };
+
+  // atom := number | constant | function "(" sum ")" | "(" sum ")"
+  const parseAtom = (): number => {
+    const token = next();
+    if (token === undefined) throw new Error('Unexpected end of expression');
+
+    if (token === '(') {
+      const value = parseSum();
+      expect(')');
+      return value;
+    }
+    if (/^[\d.]/.test(token)) return Number(token);
+
+    const name = token.toLowerCase();
+    if (name in CONSTANTS) return CONSTANTS[name];
+    if (name in FUNCTIONS) {
+      expect('(');
+      const argument = parseSum();
+      expect(')');
+      return FUNCTIONS[name](argument);
+    }
+    throw new Error(`Unexpected "${token}"`);
+  };
+
+  const value = parseSum();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected "${tokens[position]}"`);
+  }
+  return value;
+}
+
+export const calculatorTool: Tool = {
+  name: 'calculator',
+  description: 'Evaluates an arithmetic expression exactly. Supports + - * / % ^, parentheses, ' +
+    'sqrt, abs, round, floor, ceil, sin, cos, tan (radians), ln, log (base 10), exp, pi and e.',
+  parameters: {
+    type: 'object',
+    properties: {
+      expression: { type: 'string', description: 'The expression, e.g. "(2 + 3) * sqrt(16)"' },
+    },
+    required: ['expression'],
+  },
+  async execute({ expression }) {
+    const result = evaluateExpression(expression as string);
+    if (!Number.isFinite(result)) {
+      throw new Error('The result is not a finite number');
+    }
+    return { result };
+  },
+};
@@ -0,0 +1,61 @@
+import { supabase } from '../supabase';
+import type { Tool } from './types';
+
+const DEFAULT_LIMIT = 5;
+const MAX_LIMIT = 20;
+// Characters of context kept on each side of the match
+const SNIPPET_RADIUS = 150;
+
+interface SearchRow {
+  content: string;
+  role: string;
+  created_at: string;
+  conversation_id: string;
+  conversations: { title: string } | null;
+}
+
+function snippet(content: string, query: string): string {
+  const at = content.toLowerCase().indexOf(query.toLowerCase());
+  const start = Math.max(0, at - SNIPPET_RADIUS);
+  const end = Math.min(content.length, Math.max(at, 0) + query.length + SNIPPET_RADIUS);
+  return (start > 0 ? '…' : '') + content.slice(start, end) + (end < content.length ? '…' : '');
+}
+
+export const searchConversationsTool: Tool = {
+  name: 'searchConversations',
+  description: "Searches the user's other conversations for messages containing a phrase.",
+  parameters: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'Phrase to look for, matched case-insensitively' },
+      limit: { type: 'integer', description: `Maximum number of messages to return, ${DEFAULT_LIMIT} by default` },
+    },
+    required: ['query'],
+  },
+  async execute({ query, limit }, { conversationId }) {
+    const phrase = (query as string).trim();
+    if (!phrase) throw new Error('The query is empty');
+
+    // % and _ are wildcards in LIKE patterns
+    const pattern = `%${phrase.replace(/[\\%_]/g, char => `\\${char}`)}%`;
+    const { data, error } = await supabase
+      .from('messages')
+      .select('content, role, created_at, conversation_id, conversations(title)')
+      .ilike('content', pattern)
+      .neq('conversation_id', conversationId)
+      .in('role', ['user', 'assistant'])
+      .order('created_at', { ascending: false })
+      .limit(Math.min(MAX_LIMIT, Math.max(1, (limit as number | undefined) ?? DEFAULT_LIMIT)));
+
+    if (error) throw new Error(error.message);
+
+    return {
+      results: (data as unknown as SearchRow[]).map(row => ({
+        conversation: row.conversations?.title ?? 'Untitled',
+        role: row.role,
+        date: row.created_at.slice(0, 10),
+        text: snippet(row.content, phrase),
+      })),
+    };
+  },
+};
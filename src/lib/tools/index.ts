@@ -0,0 +1,56 @@
+import type { ToolCall } from '../context';
+import type { ToolDefinition } from '../providers';
+import { validateJson } from '../jsonSchema';
+import { analyzeTextTool, findKeyPhrasesTool } from './textAnalysis';
+import { readImageTextTool } from './ocr';
+import { calculatorTool } from './calculator';
+import { searchConversationsTool } from './conversationSearch';
+import type { Tool, ToolContext } from './types';
+
+export type { Tool, ToolContext } from './types';
+
+const tools = new Map<string, Tool>();
+
+export function registerTool(tool: Tool) {
+  tools.set(tool.name, tool);
+}
+
+export function getTool(name: string): Tool | undefined {
+  return tools.get(name);
+}
+
+export function listTools(): Tool[] {
+  return [...tools.values()];
+}
+
+// What is sent to the provider: the tools without their implementations
+export function getToolDefinitions(): ToolDefinition[] {
+  return listTools().map(({ name, description, parameters }) => ({ name, description, parameters }));
+}
+
+// Runs one tool call and returns the JSON sent back to the model. Failures are
+// reported to the model as { "error": ... } so it can correct itself.
+export async function executeTool(call: ToolCall, context: ToolContext): Promise<string> {
+  const tool = tools.get(call.name);
+  if (!tool) {
+    return JSON.stringify({ error: `Unknown tool: ${call.name}` });
+  }
+
+  const problems = validateJson(tool.parameters, call.arguments, 'arguments');
+  if (problems.length > 0) {
+    return JSON.stringify({ error: `Invalid arguments: ${problems.join('; ')}` });
+  }
+
+  try {
+    return JSON.stringify(await tool.execute(call.arguments, context));
+  } catch (error) {
+    console.error(`Tool ${call.name} failed:`, error);
+    return JSON.stringify({ error: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+registerTool(analyzeTextTool);
+registerTool(findKeyPhrasesTool);
+registerTool(readImageTextTool);
+registerTool(calculatorTool);
+registerTool(searchConversationsTool);
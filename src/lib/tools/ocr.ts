@@ -0,0 +1,41 @@
+import { createWorker } from 'tesseract.js';
+import { loadImageData } from '../attachments';
+import type { Tool } from './types';
+
+export const readImageTextTool: Tool = {
+  name: 'readImageText',
+  description: 'Reads the text in an image the user attached to this conversation (OCR).',
+  parameters: {
+    type: 'object',
+    properties: {
+      image: {
+        type: 'integer',
+        description: 'Which attached image to read, 1 for the first one. Defaults to the most recent image.',
+      },
+    },
+  },
+  async execute({ image }, { images }) {
+    if (images.length === 0) {
+      throw new Error('No image is attached to this conversation');
+    }
+    const index = image === undefined ? images.length - 1 : (image as number) - 1;
+    const attachment = images[index];
+    if (!attachment) {
+      throw new Error(`There is no image ${image}; ${images.length} attached`);
+    }
+
+    // Text recognized on upload is reused rather than running OCR again
+    if (attachment.ocr_text) {
+      return { text: attachment.ocr_text };
+    }
+
+    const data = await loadImageData(attachment.path);
+    const worker = await createWorker('eng');
+    try {
+      const { data: { text } } = await worker.recognize(`data:${attachment.mime_type};base64,${data}`);
+      return { text: text.trim() };
+    } finally {
+      await worker.terminate();
+    }
+  },
+};
@@ -0,0 +1,32 @@
+import { analyzeText, findKeyPhrases } from '../nlp';
+import type { Tool } from './types';
+
+export const analyzeTextTool: Tool = {
+  name: 'analyzeText',
+  description: 'Analyzes a text: sentiment, named entities (people, places, organizations, dates), word and sentence counts, topics and a short extractive summary.',
+  parameters: {
+    type: 'object',
+    properties: {
+      text: { type: 'string', description: 'The text to analyze' },
+    },
+    required: ['text'],
+  },
+  async execute({ text }) {
+    return analyzeText(text as string);
+  },
+};
+
+export const findKeyPhrasesTool: Tool = {
+  name: 'findKeyPhrases',
+  description: 'Finds up to five key noun and verb phrases in a text.',
+  parameters: {
+    type: 'object',
+    properties: {
+      text: { type: 'string', description: 'The text to search for key phrases' },
+    },
+    required: ['text'],
+  },
+  async execute({ text }) {
+    return { phrases: findKeyPhrases(text as string) };
+  },
+};
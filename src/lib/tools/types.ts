@@ -0,0 +1,15 @@
+import type { ImageAttachment } from '../attachments';
+import type { ToolDefinition } from '../providers';
+
+// What a tool can see of the conversation it was called from
+export interface ToolContext {
+  conversationId: string;
+  // Images attached to the conversation so far, oldest first
+  images: ImageAttachment[];
+}
+
+export interface Tool extends ToolDefinition {
+  // Receives arguments already checked against `parameters`; the result is
+  // sent back to the model as JSON
+  execute(args: Record<string, unknown>, context: ToolContext): Promise<unknown>;
+}
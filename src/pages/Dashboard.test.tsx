@@ -0,0 +1,269 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import * as supabaseModule from '../lib/supabase';
+import { executeTool } from '../lib/tools';
+import type { createSupabaseStandIn } from '../test/supabaseStandIn';
+import { Dashboard } from './Dashboard';
+
+vi.mock('../lib/supabase', async () => {
+  const { createSupabaseStandIn } = await import('../test/supabaseStandIn');
+  return createSupabaseStandIn();
+});
+
+// Spied on, so a test can hold a tool call open
+vi.mock('../lib/tools', async (importOriginal) => {
+  const tools = await importOriginal<typeof import('../lib/tools')>();
+  return { ...tools, executeTool: vi.fn(tools.executeTool) };
+});
+
+const { supabase, tables, functions } = supabaseModule as unknown as ReturnType<typeof createSupabaseStandIn>;
+
+function seedConversation(modelId: string) {
+  tables.messages = [];
+  tables.conversations = [{
+    id: 'conv-1',
+    user_id: 'user-1',
+    title: 'New Conversation',
+    model_provider: 'mock',
+    model_id: modelId,
+    system_prompt: '',
+    stop_sequences: [],
+    summary: '',
+    active_leaf_id: null,
+    created_at: '2025-12-31T00:00:00.000Z',
+    updated_at: '2025-12-31T00:00:00.000Z',
+  }];
+}
+
+async function send(text: string) {
+  render(<MemoryRouter><Dashboard /></MemoryRouter>);
+  // Wait for the seeded conversation to be selected
+  await screen.findByText('New Conversation');
+  const input = screen.getByPlaceholderText('Type your message...');
+  fireEvent.change(input, { target: { value: text } });
+  fireEvent.submit(input.closest('form')!);
+}
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe('Dashboard', () => {
+  it('saves the prompt and the streamed reply as a branch', async () => {
+    seedConversation('echo');
+    await send('Hello there');
+
+    // The reply arrives in one piece, so it is typed out; a click shows it in full
+    await waitFor(() => expect(document.querySelector('.cursor-pointer')).not.toBeNull());
+    fireEvent.click(document.querySelector('.cursor-pointer')!);
+    expect(screen.getByText('Mock reply to: Hello there')).toBeTruthy();
+    await waitFor(() => expect(tables.messages).toHaveLength(2));
+
+    const [prompt, reply] = tables.messages;
+    expect(prompt).toMatchObject({ role: 'user', content: 'Hello there', parent_id: null });
+    expect(reply).toMatchObject({
+      role: 'assistant',
+      content: 'Mock reply to: Hello there',
+      parent_id: prompt.id,
+      model_provider: 'mock',
+      model_id: 'echo',
+    });
+    await waitFor(() => expect(tables.conversations[0]).toMatchObject({
+      title: 'Hello there',
+      active_leaf_id: reply.id,
+    }));
+  });
+
+  it('runs requested tools and answers with their results', async () => {
+    seedConversation('tools');
+    await send('What is 6 times 7?');
+
+    expect(await screen.findByText(/6 × 7 = 42/)).toBeTruthy();
+    await waitFor(() => expect(tables.messages.map(m => m.role)).toEqual(['user', 'assistant', 'tool', 'assistant']));
+
+    const [, call, result, answer] = tables.messages;
+    expect(call.tool_calls).toEqual([{ id: 'call_1', name: 'calculator', arguments: { expression: '6 * 7' } }]);
+    expect(result).toMatchObject({ tool_call_id: 'call_1', tool_name: 'calculator', parent_id: call.id });
+    expect(JSON.parse(result.content as string)).toMatchObject({ result: 42 });
+    expect(answer).toMatchObject({ content: 'The calculator says 6 × 7 = 42.', parent_id: result.id });
+  });
+
+  it('stops after the running tool when Stop is pressed', async () => {
+    seedConversation('tools');
+    let finishTool!: (content: string) => void;
+    vi.mocked(executeTool).mockImplementationOnce(() => new Promise(resolve => { finishTool = resolve; }));
+    await send('What is 6 times 7?');
+
+    await waitFor(() => expect(executeTool).toHaveBeenCalled());
+    fireEvent.click(screen.getByTitle('Stop generating'));
+    finishTool(JSON.stringify({ result: 42 }));
+
+    // The tool's result is kept, but the model isn't asked to go on
+    await waitFor(() => expect(screen.queryByTitle('Stop generating')).toBeNull());
+    expect(tables.messages.map(m => m.role)).toEqual(['user', 'assistant', 'tool']);
+    expect(tables.conversations[0].active_leaf_id).toBe(tables.messages[2].id);
+  });
+});
+
+describe('Dashboard history', () => {
+  function seedLongConversation(count: number) {
+    seedConversation('echo');
+    tables.messages = Array.from({ length: count }, (_, i) => ({
+      id: `m-${i + 1}`,
+      conversation_id: 'conv-1',
+      role: i % 2 === 0 ? 'user' : 'assistant',
+      content: `Message ${i + 1}`,
+      parent_id: i === 0 ? null : `m-${i}`,
+      sibling_index: 0,
+      created_at: new Date(Date.UTC(2025, 11, 31, 0, i)).toISOString(),
+    }));
+  }
+
+  it('loads the newest page first and earlier pages on request', async () => {
+    seedLongConversation(60);
+    render(<MemoryRouter><Dashboard /></MemoryRouter>);
+
+    expect(await screen.findByText('Message 11')).toBeTruthy();
+    expect(screen.queryByText('Message 10')).toBeNull();
+
+    fireEvent.click(screen.getByText('Load earlier messages'));
+    expect(await screen.findByText('Message 1')).toBeTruthy();
+    expect(screen.queryByText('Load earlier messages')).toBeNull();
+  });
+
+  it('keeps messages saved in the same instant as the page boundary', async () => {
+    seedLongConversation(51);
+    tables.messages[0].created_at = tables.messages[1].created_at;
+    render(<MemoryRouter><Dashboard /></MemoryRouter>);
+
+    expect(await screen.findByText('Message 2')).toBeTruthy();
+    fireEvent.click(screen.getByText('Load earlier messages'));
+    expect(await screen.findByText('Message 1')).toBeTruthy();
+  });
+
+  it('drops pages of a conversation the user has switched away from', async () => {
+    seedLongConversation(60);
+    // The remembered branch is on the older page, so loading takes two fetches
+    tables.conversations[0].active_leaf_id = 'm-5';
+    tables.conversations.push({
+      ...tables.conversations[0],
+      id: 'conv-2',
+      title: 'Other conversation',
+      active_leaf_id: null,
+      updated_at: '2025-12-30T00:00:00.000Z',
+    });
+
+    // Holds the second page until the user has switched
+    let release!: () => void;
+    const held = new Promise<void>(resolve => { release = resolve; });
+    let secondPage: Promise<unknown> | undefined;
+    let pages = 0;
+    const from = supabase.from;
+    const spy = vi.spyOn(supabase, 'from').mockImplementation((table: string) => {
+      const builder = from(table);
+      if (table === 'messages' && ++pages === 2) {
+        const { then } = builder;
+        builder.then = ((resolve, reject) => (secondPage = held.then(() => then(resolve, reject)))) as typeof then;
+      }
+      return builder;
+    });
+    render(<MemoryRouter><Dashboard /></MemoryRouter>);
+
+    await waitFor(() => expect(secondPage).toBeDefined());
+    fireEvent.click(screen.getByText('Other conversation'));
+    await act(async () => {
+      release();
+      await secondPage;
+    });
+
+    // The other conversation has no messages; the first one's would start with this
+    expect(screen.queryByText('Message 1')).toBeNull();
+    spy.mockRestore();
+  });
+
+  it('fetches only the rest of the branch before answering', async () => {
+    seedLongConversation(60);
+    const branch = vi.spyOn(functions, 'get_branch_messages');
+    await send('And now?');
+
+    await waitFor(() => expect(tables.messages.at(-1)?.content).toMatch(/Mock reply to: And now\?/));
+    expect(tables.messages.at(-2)).toMatchObject({ content: 'And now?', parent_id: 'm-60' });
+    expect(branch).toHaveBeenCalledWith({ leaf_id: 'm-10', stop_at_id: null });
+    expect(branch.mock.results[0].value).toHaveLength(10);
+    // The list still holds only the pages loaded
+    expect(screen.getByText('Load earlier messages')).toBeTruthy();
+    branch.mockRestore();
+  });
+
+  it('shows saved replies without typing them out again', async () => {
+    seedLongConversation(2);
+    render(<MemoryRouter><Dashboard /></MemoryRouter>);
+
+    // The reply loads with its prompt, already in full and with no cursor
+    expect(await screen.findByText('Message 1')).toBeTruthy();
+    expect(screen.getByText('Message 2')).toBeTruthy();
+    expect(document.querySelector('.cursor-pointer > .bg-indigo-400')).toBeNull();
+  });
+
+  it('lists files from the active branch only', async () => {
+    seedLongConversation(2);
+    tables.messages.push({
+      ...tables.messages[1],
+      id: 'm-2b',
+      content: '```ts title=src/abandoned.ts\nexport {};\n```',
+      sibling_index: 1,
+    });
+    tables.messages[1].content = '```ts title=src/app.ts\nexport {};\n```';
+    tables.conversations[0].active_leaf_id = 'm-2';
+    render(<MemoryRouter><Dashboard /></MemoryRouter>);
+
+    fireEvent.click(await screen.findByTitle('Show files'));
+    // The panel's file count; the other branch's file would make it two
+    expect(await screen.findByText('(1)')).toBeTruthy();
+  });
+
+  it('shows prompts that mention the reasoning tags in full', async () => {
+    seedLongConversation(2);
+    tables.messages[0].content = 'Why does my parser break on </think>?';
+    render(<MemoryRouter><Dashboard /></MemoryRouter>);
+
+    expect(await screen.findByText('Why does my parser break on </think>?')).toBeTruthy();
+    expect(screen.queryByText('Reasoning')).toBeNull();
+  });
+});
+
+describe('Dashboard search', () => {
+  it('opens a result in its conversation at the matching message', async () => {
+    seedConversation('echo');
+    tables.messages = Array.from({ length: 60 }, (_, i) => ({
+      id: `m-${i + 1}`,
+      conversation_id: 'conv-1',
+      role: i % 2 === 0 ? 'user' : 'assistant',
+      content: i === 2 ? 'We fixed the RLS policy' : `Message ${i + 1}`,
+      parent_id: i === 0 ? null : `m-${i}`,
+      sibling_index: 0,
+      created_at: new Date(Date.UTC(2025, 11, 31, 0, i)).toISOString(),
+    }));
+    const search = vi.fn(() => [{
+      conversation_id: 'conv-1',
+      conversation_title: 'New Conversation',
+      message_id: 'm-3',
+      role: 'user',
+      model_id: 'echo',
+      created_at: '2025-12-31T00:02:00.000Z',
+      snippet: 'We fixed the \u0002RLS\u0003 \u0002policy\u0003',
+      rank: 0.5,
+    }]);
+    functions.search_conversations = search;
+    render(<MemoryRouter><Dashboard /></MemoryRouter>);
+    expect(await screen.findByText('Message 11')).toBeTruthy();
+
+    fireEvent.change(screen.getByPlaceholderText('Search conversations...'), { target: { value: 'rls policy' } });
+    const highlight = await screen.findByText('RLS', { selector: 'mark' });
+    expect(search).toHaveBeenCalledWith(expect.objectContaining({ search_query: 'rls policy', message_role: null }));
+
+    fireEvent.click(highlight.closest('button')!);
+    expect(await screen.findByText('We fixed the RLS policy')).toBeTruthy();
+  });
+});
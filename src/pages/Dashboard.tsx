@@ -1,28 +1,173 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useRef } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
-import { Send, Plus, Loader2, MessageSquare, Settings, Bot, Pencil, Trash2, Check, X, Paperclip, ChevronLeft } from 'lucide-react';
-import { generateAIResponse, availableModels, type AIModel } from '../lib/ai';
+import { Send, Plus, Loader2, MessageSquare, Settings, Bot, Pencil, Trash2, Check, X, Paperclip, ChevronLeft, AlertTriangle, RotateCcw, Square, SlidersHorizontal, ChevronRight, Columns, Layers, Wrench, Braces, DatabaseZap, Terminal, AppWindow, FolderTree, History } from 'lucide-react';
+import {
+  streamAIResponse,
+  generateStructuredResponse,
+  DEFAULT_MODEL,
+  type AIModel,
+  type ChatMessage,
+  type ResponseInfo,
+  type ToolCall,
+  type JsonSchema
+} from '../lib/ai';
+import { parseJsonSchema } from '../lib/jsonSchema';
+import { executeTool, getToolDefinitions, type ToolContext } from '../lib/tools';
+import { listProviders, hasModel, findModel, getModelInfo } from '../lib/providers';
+import { ProviderError, isAbortError } from '../lib/errors';
+import {
+  loadFallbackModels,
+  saveFallbackModels,
+  loadReasoningPreferences,
+  saveReasoningPreferences,
+  loadOutputSchema,
+  saveOutputSchema,
+  loadCachePreferences,
+  saveCachePreferences,
+  type ReasoningPreferences,
+  type CachePreferences
+} from '../lib/settings';
+import { clearCache } from '../lib/responseCache';
+import { estimateCost } from '../lib/pricing';
+import { compactionPoint, summarizeTurns, withSummary } from '../lib/compaction';
+import { uploadImage, toChatImages, type MessageAttachment } from '../lib/attachments';
 import type { User } from '@supabase/supabase-js';
-import { CodeBlock } from '../components/CodeBlock';
-import { parseMessage } from '../utils/messageParser';
+import { Markdown } from '../components/Markdown';
+import { stripReasoning } from '../utils/messageParser';
+import { parseMarkdown } from '../utils/markdown';
+import { getActivePath, groupChildren, findLatestLeaf, nextSiblingIndex } from '../utils/messageTree';
 import { ImageAnalysis } from '../components/ImageAnalysis';
 import { motion, AnimatePresence } from 'framer-motion';
 import { TypewriterMessage } from '../components/TypewriterMessage';
 import type { ImageAnalysisResult } from '../components/ImageAnalysis';
+import { ConversationSettings, type ConversationSettingsValues } from '../components/ConversationSettings';
+import { CompareView, type CompareResult } from '../components/CompareView';
+import { MessageImage } from '../components/MessageImage';
+import { ToolCallCard } from '../components/ToolCallCard';
+import { JsonView } from '../components/JsonView';
+import { ArtifactPanel, type ArtifactSelection } from '../components/ArtifactPanel';
+import { collectArtifacts } from '../lib/artifacts';
+import { FilesPanel } from '../components/FilesPanel';
+import { collectProjectFiles } from '../lib/projectFiles';
+import { SearchPanel } from '../components/SearchPanel';
+import type { SearchResult } from '../lib/search';
 
 interface Message {
   id: string;
-  role: 'user' | 'assistant';
+  role: 'user' | 'assistant' | 'tool';
   content: string;
   created_at: string;
+  parent_id: string | null;
+  sibling_index: number;
+  truncated?: boolean;
+  model_provider?: string | null;
+  model_id?: string | null;
+  prompt_tokens?: number | null;
+  completion_tokens?: number | null;
+  latency_ms?: number | null;
+  reasoning_ms?: number | null;
+  attachments?: MessageAttachment[];
+  tool_calls?: ToolCall[] | null;
+  tool_call_id?: string | null;
+  tool_name?: string | null;
+  // Set when the reply was requested as JSON; the content is the validated value
+  output_schema?: JsonSchema | null;
+  // Answered from the response cache instead of the model
+  cached?: boolean;
   isTyping?: boolean;
+  // Shown as it streamed in, so there is nothing left to type out
+  streamed?: boolean;
+  // Arrived during this session and not typed out yet. Only these replies
+  // are ever typed out; history loaded from the database appears at once.
+  fresh?: boolean;
+  // Generation failed; the message only exists locally and is never saved
+  failed?: boolean;
+  error?: string;
 }
 
 interface Conversation {
   id: string;
   title: string;
   updated_at: string;
+  system_prompt?: string;
+  temperature?: number | null;
+  top_p?: number | null;
+  max_tokens?: number | null;
+  stop_sequences?: string[];
+  model_provider?: string | null;
+  model_id?: string | null;
+  active_leaf_id?: string | null;
+  summary?: string;
+  summary_message_id?: string | null;
+}
+
+// Rounds of tool calls allowed in one reply before the model has to answer
+const MAX_TOOL_ROUNDS = 5;
+
+// Messages fetched at a time, newest first, when a conversation is opened or
+// scrolled back through
+const MESSAGE_PAGE_SIZE = 50;
+
+// How long a message opened from search stays highlighted
+const FOCUS_HIGHLIGHT_MS = 2000;
+
+// Matches the panel's w-[480px]
+const SIDE_PANEL_WIDTH = 480;
+
+interface RespondOptions {
+  // Ask for JSON matching this schema instead of free text
+  schema?: JsonSchema;
+  // Tool call rounds already made in this turn
+  round?: number;
+  // Ask the model even if the response cache has an answer
+  bypassCache?: boolean;
+  // Stops the whole turn, tool calls included, when the user presses Stop
+  controller?: AbortController;
+}
+
+// Side-by-side answers to one prompt, waiting for the user to pick one
+interface Comparison {
+  conversationId: string;
+  parentId: string;
+  results: CompareResult[];
+}
+
+async function toChatHistory(history: Message[], includeReasoning: boolean): Promise<ChatMessage[]> {
+  return Promise.all(history
+    .filter(m => !m.failed)
+    .map(async ({ role, content, attachments, tool_calls, tool_call_id, tool_name }) => ({
+      role,
+      content: role === 'assistant' && !includeReasoning ? stripReasoning(content) : content,
+      images: attachments?.length ? await toChatImages(attachments) : undefined,
+      toolCalls: tool_calls ?? undefined,
+      toolCallId: tool_call_id ?? undefined,
+      toolName: tool_name ?? undefined
+    })));
+}
+
+function describeImageText(results: ImageAnalysisResult[]): string {
+  return results.map(result => `${result.type.toUpperCase()}:\n${result.content}`).join('\n\n');
+}
+
+function describeError(error: unknown): string {
+  return error instanceof ProviderError ? error.message : 'Something went wrong while generating a response.';
+}
+
+function getConversationSettings(conversation: Conversation, defaultModel: AIModel): ConversationSettingsValues {
+  const { model_provider, model_id } = conversation;
+  return {
+    model: model_provider && model_id && hasModel(model_provider, model_id)
+      ? { provider: model_provider, modelId: model_id }
+      : defaultModel,
+    systemPrompt: conversation.system_prompt ?? '',
+    temperature: conversation.temperature ?? null,
+    topP: conversation.top_p ?? null,
+    maxTokens: conversation.max_tokens ?? null,
+    stopSequences: conversation.stop_sequences ?? [],
+    summary: conversation.summary ?? '',
+  };
 }
 
 export function Dashboard() {
@@ -30,7 +175,11 @@ export function Dashboard() {
   const [user, setUser] = useState<User | null>(null);
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [currentConversation, setCurrentConversation] = useState<string | null>(null);
+  // Every message of the conversation tree; only the active branch is shown
   const [messages, setMessages] = useState<Message[]>([]);
+  const [activeLeafId, setActiveLeafId] = useState<string | null>(null);
+  const [editingMessage, setEditingMessage] = useState<string | null>(null);
+  const [editedContent, setEditedContent] = useState('');
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
   const [showModelSelect, setShowModelSelect] = useState(false);
@@ -40,13 +189,84 @@ export function Dashboard() {
   const [isThinking, setIsThinking] = useState(false);
   const [showImageUpload, setShowImageUpload] = useState(false);
   const [imageAnalysisResults, setImageAnalysisResults] = useState<ImageAnalysisResult[] | null>(null);
-  const [selectedModel, setSelectedModel] = useState<AIModel>({
-    provider: 'openrouter',
-    modelId: 'deepseek/deepseek-r1-distill-llama-70b:free'
-  });
+  const [attachedImage, setAttachedImage] = useState<Blob | null>(null);
+  // Model used while no conversation is open, and inherited by new conversations
+  const [draftModel, setDraftModel] = useState<AIModel>(DEFAULT_MODEL);
+  const [showSettings, setShowSettings] = useState(false);
+  const [fallbackModels, setFallbackModels] = useState<AIModel[]>(loadFallbackModels);
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareModels, setCompareModels] = useState<AIModel[]>(() =>
+    listProviders()
+      .flatMap(provider => provider.models.map(model => ({ provider: provider.id, modelId: model.id })))
+      .slice(0, 2)
+  );
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [reasoningPreferences, setReasoningPreferences] = useState<ReasoningPreferences>(loadReasoningPreferences);
+  // Next replies are requested as JSON matching schemaText
+  const [jsonMode, setJsonMode] = useState(false);
+  const [schemaText, setSchemaText] = useState(loadOutputSchema);
+  const [cachePreferences, setCachePreferences] = useState<CachePreferences>(loadCachePreferences);
+  // Skip the response cache for the next message only
+  const [bypassCache, setBypassCache] = useState(false);
+  // Output of code blocks run in the sandbox, sent with the next message
+  const [codeOutputs, setCodeOutputs] = useState<string[]>([]);
+  // What the artifact panel shows; null while it is closed
+  const [artifactSelection, setArtifactSelection] = useState<ArtifactSelection | null>(null);
+  const [filesOpen, setFilesOpen] = useState(false);
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const messageListRef = useRef<HTMLDivElement>(null);
+  // Distance from the list's bottom to keep while earlier messages are added
+  const scrollAnchorRef = useRef<number | null>(null);
+  // Older messages exist beyond the pages loaded so far
+  const [hasEarlierMessages, setHasEarlierMessages] = useState(false);
+  const [loadingEarlier, setLoadingEarlier] = useState(false);
+  // The message a search result opened, highlighted for a moment
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null);
+  // Set until the list has scrolled to that message, in place of following
+  // the newest one
+  const scrollTargetRef = useRef<string | null>(null);
+  const activeConversation = conversations.find(conv => conv.id === currentConversation);
+  const activeSettings = activeConversation && getConversationSettings(activeConversation, draftModel);
+  const selectedModel = activeSettings?.model ?? draftModel;
+  const visibleMessages = getActivePath(messages, activeLeafId);
+  const lastMessage = visibleMessages[visibleMessages.length - 1];
+  // Only the messages in and near view are rendered; heights are measured
+  // as they appear
+  const messageVirtualizer = useVirtualizer({
+    count: visibleMessages.length,
+    getScrollElement: () => messageListRef.current,
+    estimateSize: () => 160,
+    overscan: 8,
+    getItemKey: index => visibleMessages[index].id,
+  });
+  const childrenByParent = groupChildren(messages);
+  // Finished replies only, so previews don't reload on every streamed token
+  // Only the active branch counts: a reply the user switched away from is
+  // neither the latest version of an artifact nor part of the project
+  const finishedMessages = visibleMessages.filter(m => !m.isTyping && !m.failed);
+  const artifacts = collectArtifacts(finishedMessages);
+  const projectFiles = collectProjectFiles(finishedMessages);
+  // The artifact and files panels share the space right of the chat
+  const showArtifacts = artifactSelection !== null && artifacts.length > 0;
+  const showFiles = filesOpen && !showArtifacts && projectFiles.length > 0;
+
+  let outputSchema: JsonSchema | undefined;
+  let schemaError: string | null = null;
+  if (jsonMode && !compareMode) {
+    try {
+      outputSchema = parseJsonSchema(schemaText);
+    } catch (error) {
+      schemaError = (error as Error).message;
+    }
+  }
+  const abortControllerRef = useRef<AbortController | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  // Bumped by each load of messages, and when no conversation is open, so a
+  // load still fetching pages knows it has been overtaken
+  const loadRequestRef = useRef(0);
+  // The latest loadMessages, for the effect that runs it on a switch
+  const loadMessagesRef = useRef<typeof loadMessages>();
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
@@ -61,13 +281,35 @@ export function Dashboard() {
 
   useEffect(() => {
     if (currentConversation) {
-      loadMessages(currentConversation);
+      loadMessagesRef.current?.(currentConversation, scrollTargetRef.current);
+    } else {
+      // Nothing to show, so a load still running is overtaken too
+      loadRequestRef.current++;
     }
   }, [currentConversation]);
 
+  // Follows new and streaming messages, but not earlier pages loading above
   useEffect(() => {
+    if (scrollTargetRef.current) return;
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages, isThinking]);
+  }, [lastMessage, isThinking]);
+
+  const focusedIndex = focusedMessageId ? visibleMessages.findIndex(m => m.id === focusedMessageId) : -1;
+  useEffect(() => {
+    if (focusedIndex === -1) return;
+    messageVirtualizer.scrollToIndex(focusedIndex, { align: 'center' });
+    scrollTargetRef.current = null;
+    const timer = setTimeout(() => setFocusedMessageId(null), FOCUS_HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [focusedIndex, messageVirtualizer]);
+
+  useLayoutEffect(() => {
+    const list = messageListRef.current;
+    if (list && scrollAnchorRef.current !== null) {
+      list.scrollTop = list.scrollHeight - scrollAnchorRef.current;
+      scrollAnchorRef.current = null;
+    }
+  }, [messages]);
 
   const loadConversations = async () => {
     const { data, error } = await supabase
@@ -83,16 +325,108 @@ export function Dashboard() {
     }
   };
 
-  const loadMessages = async (conversationId: string) => {
-    const { data, error } = await supabase
+  // The page of messages before `before` (the newest page without it), oldest
+  // first. Pages are ordered by time and then id, so messages saved in the
+  // same instant are neither skipped nor repeated at a page boundary.
+  const fetchMessagePage = async (conversationId: string, before?: Message): Promise<Message[] | null> => {
+    let query = supabase
       .from('messages')
       .select('*')
-      .eq('conversation_id', conversationId)
-      .order('created_at', { ascending: true });
+      .eq('conversation_id', conversationId);
+    if (before) {
+      query = query.or(
+        `created_at.lt."${before.created_at}",and(created_at.eq."${before.created_at}",id.lt."${before.id}")`
+      );
+    }
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(MESSAGE_PAGE_SIZE);
 
-    if (!error && data) {
-      setMessages(data);
+    return error || !data ? null : data.reverse();
+  };
+
+  // Loads the newest page, and earlier ones until the remembered branch and
+  // `targetId` are in. A target on another branch switches to that branch.
+  const loadMessages = async (conversationId: string, targetId?: string | null) => {
+    const request = ++loadRequestRef.current;
+    let leafId = conversations.find(conv => conv.id === conversationId)?.active_leaf_id ?? null;
+    let loaded: Message[] = [];
+    let more = true;
+    while (more) {
+      const page = await fetchMessagePage(conversationId, loaded[0]);
+      if (!page || request !== loadRequestRef.current) return;
+      loaded = [...page, ...loaded];
+      more = page.length === MESSAGE_PAGE_SIZE;
+      if ([leafId, targetId].every(id => !id || loaded.some(m => m.id === id))) break;
+    }
+
+    if (targetId && !loaded.some(m => m.id === targetId)) {
+      // Deleted since it was found; there is nothing to scroll to
+      scrollTargetRef.current = null;
+    } else if (targetId && !getActivePath(loaded, leafId).some(m => m.id === targetId)) {
+      leafId = findLatestLeaf(loaded, targetId)?.id ?? leafId;
+    }
+    setMessages(loaded);
+    setHasEarlierMessages(more);
+    setActiveLeafId(leafId);
+  };
+  loadMessagesRef.current = loadMessages;
+
+  const openSearchResult = (result: SearchResult) => {
+    const targetId = result.message_id;
+    setFocusedMessageId(targetId);
+    scrollTargetRef.current = targetId;
+    if (result.conversation_id !== currentConversation) {
+      setCurrentConversation(result.conversation_id);
+    } else if (targetId && !messages.some(m => m.id === targetId)) {
+      loadMessages(result.conversation_id, targetId);
+    } else if (targetId && !visibleMessages.some(m => m.id === targetId)) {
+      setActiveLeafId(findLatestLeaf(messages, targetId)?.id ?? activeLeafId);
+    }
+  };
+
+  const loadEarlierMessages = async () => {
+    if (!currentConversation || loadingEarlier) return;
+
+    setLoadingEarlier(true);
+    const request = loadRequestRef.current;
+    const page = await fetchMessagePage(currentConversation, messages[0]);
+    if (page && request === loadRequestRef.current) {
+      // Keeps the messages in view where they are as the list grows above them
+      const list = messageListRef.current;
+      scrollAnchorRef.current = list ? list.scrollHeight - list.scrollTop : null;
+      setMessages(prev => [...page, ...prev]);
+      setHasEarlierMessages(page.length === MESSAGE_PAGE_SIZE);
     }
+    setLoadingEarlier(false);
+  };
+
+  // The active branch back to its root, or to the last message the
+  // conversation's summary covers. Ancestors in pages not loaded yet are
+  // fetched for the model, without adding them to the list.
+  const withEarlierMessages = async (conversationId: string, history: Message[]): Promise<Message[]> => {
+    const first = history[0];
+    const summaryMessageId = conversations.find(conv => conv.id === conversationId)?.summary_message_id ?? null;
+    if (!first?.parent_id || history.some(m => m.id === summaryMessageId)) return history;
+
+    const { data, error } = await supabase.rpc('get_branch_messages', {
+      leaf_id: first.parent_id,
+      stop_at_id: summaryMessageId,
+    });
+    return error || !data ? history : [...data, ...history];
+  };
+
+  // Shows the branch ending at `leafId` and remembers it for the next visit
+  const selectBranch = async (conversationId: string, leafId: string) => {
+    setActiveLeafId(leafId);
+    setConversations(prev => prev.map(conv =>
+      conv.id === conversationId ? { ...conv, active_leaf_id: leafId } : conv
+    ));
+    await supabase
+      .from('conversations')
+      .update({ active_leaf_id: leafId })
+      .eq('id', conversationId);
   };
 
   const createNewConversation = async () => {
@@ -100,7 +434,11 @@ export function Dashboard() {
 
     const { data, error } = await supabase
       .from('conversations')
-      .insert([{ user_id: user.id }])
+      .insert([{
+        user_id: user.id,
+        model_provider: selectedModel.provider,
+        model_id: selectedModel.modelId
+      }])
       .select()
       .single();
 
@@ -108,6 +446,40 @@ export function Dashboard() {
       setConversations([data, ...conversations]);
       setCurrentConversation(data.id);
       setMessages([]);
+      setActiveLeafId(null);
+    }
+  };
+
+  const saveConversationSettings = async (id: string, settings: ConversationSettingsValues) => {
+    const update = {
+      model_provider: settings.model.provider,
+      model_id: settings.model.modelId,
+      system_prompt: settings.systemPrompt,
+      temperature: settings.temperature,
+      top_p: settings.topP,
+      max_tokens: settings.maxTokens,
+      stop_sequences: settings.stopSequences,
+      summary: settings.summary,
+      // Without a summary the full history is sent again
+      ...(settings.summary ? {} : { summary_message_id: null }),
+    };
+
+    const { error } = await supabase
+      .from('conversations')
+      .update(update)
+      .eq('id', id);
+
+    if (!error) {
+      setConversations(prev => prev.map(conv =>
+        conv.id === id ? { ...conv, ...update } : conv
+      ));
+    }
+  };
+
+  const selectModel = (model: AIModel) => {
+    setDraftModel(model);
+    if (activeConversation && activeSettings) {
+      saveConversationSettings(activeConversation.id, { ...activeSettings, model });
     }
   };
 
@@ -145,48 +517,586 @@ export function Dashboard() {
         const nextConv = conversations.find(conv => conv.id !== id);
         setCurrentConversation(nextConv?.id ?? null);
         setMessages([]);
+        setActiveLeafId(null);
       }
     }
   };
 
-  const handleImageAnalysisComplete = (results: ImageAnalysisResult[]) => {
-    setImageAnalysisResults(results);
+  const handleImageAnalysisComplete = (results: ImageAnalysisResult[], image?: Blob) => {
+    // Clearing the image reports no results and no image
+    setImageAnalysisResults(image || results.length > 0 ? results : null);
+    setAttachedImage(image ?? null);
     setShowImageUpload(false);
   };
 
+  const toggleFallbackModel = (model: AIModel) => {
+    const isFallback = fallbackModels.some(m => m.provider === model.provider && m.modelId === model.modelId);
+    const updated = isFallback
+      ? fallbackModels.filter(m => m.provider !== model.provider || m.modelId !== model.modelId)
+      : [...fallbackModels, model];
+    setFallbackModels(updated);
+    saveFallbackModels(updated);
+  };
+
+  const updateReasoningPreferences = (patch: Partial<ReasoningPreferences>) => {
+    const updated = { ...reasoningPreferences, ...patch };
+    setReasoningPreferences(updated);
+    saveReasoningPreferences(updated);
+  };
+
+  const updateCachePreferences = (patch: Partial<CachePreferences>) => {
+    const updated = { ...cachePreferences, ...patch };
+    setCachePreferences(updated);
+    saveCachePreferences(updated);
+  };
+
+  const clearResponseCache = async () => {
+    try {
+      await clearCache();
+    } catch (error) {
+      console.error('Error clearing the response cache:', error);
+    }
+  };
+
+  const attachCodeOutput = (output: string) => {
+    setCodeOutputs(prev => [...prev, output]);
+    inputRef.current?.focus();
+  };
+
+  // Shows the artifact version whose code this is
+  const openArtifact = (code: string) => {
+    for (const artifact of artifacts) {
+      const index = artifact.versions.map(v => v.code).lastIndexOf(code);
+      if (index !== -1) {
+        setArtifactSelection({
+          artifactId: artifact.id,
+          versionIndex: index === artifact.versions.length - 1 ? null : index
+        });
+        return;
+      }
+    }
+  };
+
+  const toggleCompareModel = (model: AIModel) => {
+    setCompareModels(prev => prev.some(m => m.provider === model.provider && m.modelId === model.modelId)
+      ? prev.filter(m => m.provider !== model.provider || m.modelId !== model.modelId)
+      : [...prev, model]
+    );
+  };
+
+  // The conversation's system prompt and sampling parameters
+  const generationOptions = () => ({
+    systemPrompt: activeSettings?.systemPrompt,
+    params: activeSettings && {
+      temperature: activeSettings.temperature ?? undefined,
+      topP: activeSettings.topP ?? undefined,
+      maxTokens: activeSettings.maxTokens ?? undefined,
+      stopSequences: activeSettings.stopSequences,
+    },
+  });
+
+  // Builds what is sent for `history`: turns covered by the conversation summary
+  // are replaced by it, and when the rest still doesn't fit `model` the older
+  // turns are folded into the summary first. There is one summary per
+  // conversation; on a branch that doesn't contain it the summary is rewritten.
+  const buildContext = async (conversationId: string, history: Message[], model: AIModel, signal: AbortSignal) => {
+    const conversation = conversations.find(conv => conv.id === conversationId);
+    const options = { ...generationOptions(), fallbacks: fallbackModels, signal };
+    const turns = (await withEarlierMessages(conversationId, history)).filter(m => !m.failed);
+
+    const summarizedIndex = turns.findIndex(m => m.id === conversation?.summary_message_id);
+    let summary = summarizedIndex !== -1 ? conversation?.summary ?? '' : '';
+    const recent = summary ? turns.slice(summarizedIndex + 1) : turns;
+    let chatHistory = await toChatHistory(recent, reasoningPreferences.sendReasoning);
+
+    const point = compactionPoint(chatHistory, model, {
+      ...options,
+      systemPrompt: withSummary(options.systemPrompt, summary)
+    });
+    if (point > 0) {
+      summary = await summarizeTurns(chatHistory.slice(0, point), summary, model, options);
+      chatHistory = chatHistory.slice(point);
+
+      const update = { summary, summary_message_id: recent[point - 1].id };
+      const { error } = await supabase
+        .from('conversations')
+        .update(update)
+        .eq('id', conversationId);
+
+      if (!error) {
+        setConversations(prev => prev.map(conv =>
+          conv.id === conversationId ? { ...conv, ...update } : conv
+        ));
+      }
+    }
+
+    return { chatHistory, systemPrompt: withSummary(options.systemPrompt, summary) };
+  };
+
+  // Saves a finished reply, with what it cost, and makes it the active branch
+  const saveAssistantMessage = async (
+    conversationId: string,
+    parentId: string,
+    siblingIndex: number,
+    reply: {
+      content: string;
+      model: AIModel;
+      info?: ResponseInfo;
+      truncated: boolean;
+      reasoningMs?: number;
+      outputSchema?: JsonSchema;
+      // False when the reply came in one piece and hasn't been shown yet
+      streamed?: boolean;
+    }
+  ): Promise<Message | null> => {
+    const { model, info, truncated } = reply;
+    const usage = info?.usage;
+    const { saveReasoning } = reasoningPreferences;
+    const { data, error } = await supabase
+      .from('messages')
+      .insert([{
+        conversation_id: conversationId,
+        role: 'assistant',
+        content: saveReasoning ? reply.content : stripReasoning(reply.content),
+        reasoning_ms: saveReasoning && reply.reasoningMs !== undefined ? Math.round(reply.reasoningMs) : null,
+        truncated,
+        parent_id: parentId,
+        sibling_index: siblingIndex,
+        model_provider: model.provider,
+        model_id: model.modelId,
+        prompt_tokens: usage?.promptTokens ?? null,
+        completion_tokens: usage?.completionTokens ?? null,
+        latency_ms: info ? Math.round(info.latencyMs) : null,
+        cost_usd: usage ? estimateCost(model, usage) : null,
+        tool_calls: !truncated && info?.toolCalls?.length ? info.toolCalls : null,
+        output_schema: reply.outputSchema ?? null,
+        cached: info?.cached ?? false
+      }])
+      .select()
+      .single();
+
+    if (error || !data) return null;
+
+    setMessages(prev => [...prev, { ...data, fresh: true, streamed: reply.streamed ?? true }]);
+    await selectBranch(conversationId, data.id);
+    return data;
+  };
+
+  // A reply is typed out once; the list unmounts rows scrolled out of view,
+  // and one scrolled back appears in full
+  const finishTyping = (id: string) => {
+    setMessages(prev => prev.map(m => m.id === id ? { ...m, fresh: false } : m));
+  };
+
+  // Runs the tools the model asked for, saving each result as a tool message
+  // after the call, then lets the model continue with the results
+  const runToolCalls = async (
+    conversationId: string,
+    history: Message[],
+    toolCalls: ToolCall[],
+    { round = 0, bypassCache }: RespondOptions
+  ) => {
+    // Stop stays available while the tools run
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    const context: ToolContext = {
+      conversationId,
+      images: history.flatMap(m => m.attachments ?? []).filter(attachment => attachment.type === 'image'),
+    };
+
+    let parent = history[history.length - 1];
+    const results: Message[] = [];
+    for (const call of toolCalls) {
+      const pendingId = `tool-${call.id}`;
+      setMessages(prev => [...prev, {
+        id: pendingId,
+        role: 'tool',
+        content: '',
+        created_at: new Date().toISOString(),
+        parent_id: parent.id,
+        sibling_index: 0,
+        tool_call_id: call.id,
+        tool_name: call.name,
+        isTyping: true
+      }]);
+      setActiveLeafId(pendingId);
+
+      const content = await executeTool(call, context);
+      const { data, error } = await supabase
+        .from('messages')
+        .insert([{
+          conversation_id: conversationId,
+          role: 'tool',
+          content,
+          parent_id: parent.id,
+          sibling_index: 0,
+          tool_call_id: call.id,
+          tool_name: call.name
+        }])
+        .select()
+        .single();
+
+      setMessages(prev => [...prev.filter(m => m.id !== pendingId), ...(data ? [data] : [])]);
+      if (error || !data) {
+        await selectBranch(conversationId, parent.id);
+        abortControllerRef.current = null;
+        setIsThinking(false);
+        return;
+      }
+      results.push(data);
+      parent = data;
+
+      // Results already saved are kept; the model isn't asked again
+      if (controller.signal.aborted) {
+        await selectBranch(conversationId, parent.id);
+        abortControllerRef.current = null;
+        setIsThinking(false);
+        return;
+      }
+    }
+
+    await selectBranch(conversationId, parent.id);
+    await respond(conversationId, [...history, ...results], { round: round + 1, bypassCache, controller });
+  };
+
+  // Streams a reply to `history` into a placeholder message and saves it once complete.
+  // The reply becomes a new child of the last message in `history`.
+  // Failed replies stay in the UI, marked as failed, and are not persisted.
+  const respond = async (
+    conversationId: string,
+    history: Message[],
+    { schema, round = 0, bypassCache, controller = new AbortController() }: RespondOptions = {}
+  ) => {
+    setIsThinking(true);
+
+    const parentId = history[history.length - 1].id;
+    const siblingIndex = nextSiblingIndex(messages.filter(m => !m.failed), parentId);
+
+    const streamingId = `streaming-${Date.now()}`;
+    const updatePlaceholder = (patch: Partial<Message>) => {
+      setMessages(prev => prev.some(m => m.id === streamingId)
+        ? prev.map(m => m.id === streamingId ? { ...m, ...patch } : m)
+        : [...prev, {
+            id: streamingId,
+            role: 'assistant',
+            content: '',
+            created_at: new Date().toISOString(),
+            parent_id: parentId,
+            sibling_index: siblingIndex,
+            ...patch
+          }]
+      );
+      setActiveLeafId(streamingId);
+    };
+
+    abortControllerRef.current = controller;
+
+    const startedAt = performance.now();
+    let reasoningMs: number | undefined;
+    let aiResponse = '';
+    let chunks = 0;
+    let truncated = false;
+    let responseInfo: ResponseInfo | undefined;
+    try {
+      const { chatHistory, systemPrompt } = await buildContext(conversationId, history, selectedModel, controller.signal);
+      const options = {
+        ...generationOptions(),
+        systemPrompt,
+        fallbacks: fallbackModels,
+        cache: cachePreferences.enabled && !bypassCache
+          ? { ttlMs: cachePreferences.ttlHours * 3600000, shared: cachePreferences.shared }
+          : undefined,
+        signal: controller.signal,
+        onComplete: (info: ResponseInfo) => { responseInfo = info; }
+      };
+
+      if (schema) {
+        // A JSON reply can only be validated once complete, so it isn't streamed
+        ({ text: aiResponse } = await generateStructuredResponse(chatHistory, selectedModel, schema, options));
+      } else {
+        for await (const delta of streamAIResponse(chatHistory, selectedModel, {
+          ...options,
+          // The last round has to answer with what it has
+          tools: round < MAX_TOOL_ROUNDS ? getToolDefinitions() : undefined,
+        })) {
+          aiResponse += delta;
+          chunks++;
+          if (reasoningMs === undefined && aiResponse.includes('</think>')) {
+            reasoningMs = performance.now() - startedAt;
+          }
+          // A reply that arrives in one piece (cached, or from a provider that
+          // doesn't stream) isn't shown until saved, then it is typed out
+          if (chunks > 1) {
+            updatePlaceholder({ content: aiResponse, isTyping: true, reasoning_ms: reasoningMs });
+          }
+        }
+      }
+    } catch (error) {
+      if (isAbortError(error)) {
+        // Keep whatever arrived before the user pressed Stop
+        truncated = true;
+      } else {
+        console.error('AI Response Error:', error);
+        updatePlaceholder({
+          content: aiResponse,
+          isTyping: false,
+          streamed: true,
+          failed: true,
+          error: describeError(error),
+          output_schema: schema
+        });
+        abortControllerRef.current = null;
+        setIsThinking(false);
+        return;
+      }
+    }
+    abortControllerRef.current = null;
+
+    // Nothing to keep if the reply was stopped before the first token
+    if (truncated && !aiResponse) {
+      setMessages(prev => prev.filter(m => m.id !== streamingId));
+      setActiveLeafId(parentId);
+      setIsThinking(false);
+      return;
+    }
+
+    // Persist the reply only once the stream has finished
+    setMessages(prev => prev.filter(m => m.id !== streamingId));
+    const saved = await saveAssistantMessage(conversationId, parentId, siblingIndex, {
+      content: aiResponse,
+      model: responseInfo?.model ?? selectedModel,
+      info: responseInfo,
+      truncated,
+      reasoningMs,
+      outputSchema: schema,
+      streamed: chunks > 1
+    });
+    if (!saved) {
+      setActiveLeafId(parentId);
+    } else if (saved.tool_calls?.length) {
+      await runToolCalls(conversationId, [...history, saved], saved.tool_calls, { round, bypassCache });
+      return;
+    }
+
+    setIsThinking(false);
+  };
+
+  // Streams answers to `history` from every compare model in parallel.
+  // Nothing is saved until the user picks one of them.
+  const compare = async (conversationId: string, history: Message[]) => {
+    setIsThinking(true);
+
+    const models = compareModels;
+    setComparison({
+      conversationId,
+      parentId: history[history.length - 1].id,
+      results: models.map(model => ({ model, content: '', status: 'streaming' })),
+    });
+
+    const updateResult = (index: number, patch: Partial<CompareResult>) => {
+      setComparison(prev => prev && {
+        ...prev,
+        results: prev.results.map((result, i) => i === index ? { ...result, ...patch } : result),
+      });
+    };
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    // Compact for the smallest context window so every model gets the same history
+    const smallestModel = models.reduce((smallest, model) =>
+      getModelInfo(model.provider, model.modelId).contextWindow < getModelInfo(smallest.provider, smallest.modelId).contextWindow
+        ? model
+        : smallest
+    );
+    let context: Awaited<ReturnType<typeof buildContext>>;
+    try {
+      context = await buildContext(conversationId, history, smallestModel, controller.signal);
+    } catch {
+      setComparison(prev => prev && {
+        ...prev,
+        results: prev.results.map(result => ({ ...result, status: 'stopped' })),
+      });
+      abortControllerRef.current = null;
+      setIsThinking(false);
+      return;
+    }
+
+    await Promise.all(models.map(async (model, index) => {
+      let content = '';
+      try {
+        for await (const delta of streamAIResponse(context.chatHistory, model, {
+          ...generationOptions(),
+          systemPrompt: context.systemPrompt,
+          signal: controller.signal,
+          onComplete: (info) => updateResult(index, { info })
+        })) {
+          content += delta;
+          updateResult(index, { content });
+        }
+        updateResult(index, { status: 'done' });
+      } catch (error) {
+        updateResult(index, isAbortError(error)
+          ? { status: 'stopped' }
+          : { status: 'failed', error: describeError(error) }
+        );
+      }
+    }));
+
+    abortControllerRef.current = null;
+    setIsThinking(false);
+  };
+
+  const keepComparisonResult = async (result: CompareResult) => {
+    if (!comparison || loading) return;
+
+    setLoading(true);
+    const { conversationId, parentId } = comparison;
+    const saved = await saveAssistantMessage(
+      conversationId,
+      parentId,
+      nextSiblingIndex(messages.filter(m => !m.failed), parentId),
+      {
+        content: result.content,
+        model: result.model,
+        info: result.info,
+        truncated: result.status === 'stopped'
+      }
+    );
+    if (saved) {
+      setComparison(null);
+    }
+    setLoading(false);
+  };
+
+  const stopGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // The active branch up to, but not including, `message`
+  const historyBefore = (message: Message) =>
+    visibleMessages.slice(0, visibleMessages.findIndex(m => m.id === message.id));
+
+  const retryFailedMessage = async (failed: Message) => {
+    if (!currentConversation || loading) return;
+
+    setLoading(true);
+    setMessages(prev => prev.filter(m => m.id !== failed.id));
+    await respond(currentConversation, historyBefore(failed), { schema: failed.output_schema ?? undefined });
+    setLoading(false);
+  };
+
+  // Generates another answer to the same prompt as a sibling branch
+  const regenerateResponse = async (message: Message) => {
+    if (!currentConversation || loading) return;
+
+    setLoading(true);
+    setMessages(prev => prev.filter(m => !m.failed));
+    // The cache would only hand back the same answer
+    await respond(currentConversation, historyBefore(message), {
+      schema: message.output_schema ?? undefined,
+      bypassCache: true
+    });
+    setLoading(false);
+  };
+
+  // Saves the edited prompt as a sibling of the original and answers it
+  const submitEditedMessage = async (message: Message) => {
+    const content = editedContent.trim();
+    if (!currentConversation || loading || !content) return;
+
+    setLoading(true);
+    setEditingMessage(null);
+
+    const { data: messageData, error: messageError } = await supabase
+      .from('messages')
+      .insert([{
+        conversation_id: currentConversation,
+        role: 'user',
+        content,
+        attachments: message.attachments ?? [],
+        parent_id: message.parent_id,
+        sibling_index: nextSiblingIndex(messages.filter(m => !m.failed), message.parent_id)
+      }])
+      .select()
+      .single();
+
+    if (!messageError && messageData) {
+      setMessages(prev => [...prev.filter(m => !m.failed), messageData]);
+      setActiveLeafId(messageData.id);
+      await respond(currentConversation, [...historyBefore(message), messageData], { schema: outputSchema });
+    }
+
+    setLoading(false);
+  };
+
+  const switchBranch = (message: Message, offset: number) => {
+    if (!currentConversation || loading) return;
+
+    const siblings = childrenByParent.get(message.parent_id) ?? [];
+    const target = siblings[siblings.findIndex(m => m.id === message.id) + offset];
+    if (!target) return;
+
+    const leaf = findLatestLeaf(messages, target.id) ?? target;
+    if (leaf.failed || leaf.isTyping) {
+      setActiveLeafId(leaf.id);
+    } else {
+      selectBranch(currentConversation, leaf.id);
+    }
+  };
+
   const sendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
-    if ((!input.trim() && !imageAnalysisResults) || !currentConversation || loading) return;
+    if ((!input.trim() && !imageAnalysisResults && codeOutputs.length === 0) || !currentConversation || loading || comparison) return;
+    if (compareMode && compareModels.length < 2) return;
+    if (schemaError) return;
 
     setLoading(true);
 
-    let messageContent = input.trim();
+    let messageContent = [input.trim(), ...codeOutputs].filter(Boolean).join('\n\n');
+    const attachments: MessageAttachment[] = [];
     if (imageAnalysisResults) {
-      messageContent += '\n\nImage Question is:\n' + 
-        imageAnalysisResults.map(result => 
-          `${result.type.toUpperCase()}:\n${result.content}`
-        ).join('\n\n');
+      const imageText = describeImageText(imageAnalysisResults);
+      try {
+        if (!attachedImage || !user) throw new Error('No image to upload');
+        attachments.push(await uploadImage(user.id, attachedImage, imageText || undefined));
+      } catch (error) {
+        // Without a stored image, the OCR text is all the model can get
+        console.error('Error uploading image:', error);
+        messageContent += '\n\nImage Question is:\n' + imageText;
+      }
     }
 
-    // Insert user message
+    // Insert user message at the end of the active branch
+    const history = visibleMessages.filter(m => !m.failed);
+    const parentId = history.length > 0 ? history[history.length - 1].id : null;
     const { data: messageData, error: messageError } = await supabase
       .from('messages')
       .insert([{
         conversation_id: currentConversation,
         role: 'user',
-        content: messageContent
+        content: messageContent,
+        attachments,
+        parent_id: parentId,
+        sibling_index: nextSiblingIndex(messages.filter(m => !m.failed), parentId)
       }])
       .select()
       .single();
 
     if (!messageError && messageData) {
-      setMessages([...messages, messageData]);
+      setMessages([...messages.filter(m => !m.failed), messageData]);
+      setActiveLeafId(messageData.id);
       setInput('');
       setImageAnalysisResults(null);
+      setAttachedImage(null);
+      setCodeOutputs([]);
 
       // Update conversation title if it's the first message
       if (messages.length === 0) {
-        const title = messageContent.slice(0, 50) + (messageContent.length > 50 ? '...' : '');
+        const title = messageContent
+          ? messageContent.slice(0, 50) + (messageContent.length > 50 ? '...' : '')
+          : 'Image';
         await supabase
           .from('conversations')
           .update({ title })
@@ -197,53 +1107,184 @@ export function Dashboard() {
         ));
       }
 
-      setIsThinking(true);
-
-      // Get AI response
-      const aiResponse = await generateAIResponse(messageContent, selectedModel);
-      
-      const { data: aiMessageData, error: aiMessageError } = await supabase
-        .from('messages')
-        .insert([{
-          conversation_id: currentConversation,
-          role: 'assistant',
-          content: aiResponse
-        }])
-        .select()
-        .single();
-
-      if (!aiMessageError && aiMessageData) {
-        setMessages(prev => [...prev, aiMessageData]);
+      // Send the whole branch so the model keeps earlier context
+      if (compareMode) {
+        await compare(currentConversation, [...history, messageData]);
+      } else {
+        setBypassCache(false);
+        await respond(currentConversation, [...history, messageData], { schema: outputSchema, bypassCache });
       }
-
-      setIsThinking(false);
     }
     
     setLoading(false);
   };
 
   const renderMessageContent = (message: Message) => {
+    if (message.failed) {
+      return (
+        <div className="space-y-3">
+          {message.content && (
+            <TypewriterMessage content={message.content} animate={false} />
+          )}
+          <div className="flex items-start gap-2 text-sm text-red-300">
+            <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+            <span>{message.error}</span>
+          </div>
+          <button
+            onClick={() => retryFailedMessage(message)}
+            disabled={loading}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-white/5 text-sm text-gray-300 hover:bg-white/10 hover:text-white disabled:opacity-50 transition"
+          >
+            <RotateCcw size={14} />
+            Retry
+          </button>
+        </div>
+      );
+    }
+
+    if (message.role === 'assistant' && message.output_schema) {
+      try {
+        return <JsonView data={JSON.parse(message.content)} />;
+      } catch {
+        // Not JSON after all (e.g. edited in the database); show it as text
+      }
+    }
+
     if (message.role === 'assistant') {
-      return <TypewriterMessage content={message.content} />;
+      return (
+        <>
+          {!message.content && !!message.tool_calls?.length && (
+            <div className="flex items-center gap-2 text-sm text-gray-400">
+              <Wrench size={14} className="text-cyan-400" />
+              Calling {message.tool_calls.map(call => call.name).join(', ')}
+            </div>
+          )}
+          <TypewriterMessage
+            content={message.content}
+            isStreaming={message.isTyping}
+            animate={!!message.fresh && !message.streamed}
+            onComplete={message.fresh ? () => finishTyping(message.id) : undefined}
+            reasoningMs={message.reasoning_ms}
+            onAttachOutput={attachCodeOutput}
+            onPreviewCode={openArtifact}
+          />
+          {message.truncated && (
+            <div className="mt-2 flex items-center gap-1.5 text-xs text-gray-400">
+              <Square size={10} />
+              Response stopped
+            </div>
+          )}
+        </>
+      );
     }
 
-    const parts = parseMessage(message.content);
-    return parts.map((part, index) => {
-      if (part.type === 'code') {
-        return (
-          <div key={index} className="my-4">
-            <CodeBlock code={part.content} language={part.language || 'plaintext'} />
+    const images = (message.attachments ?? []).filter(attachment => attachment.type === 'image');
+    // Prompts have no reasoning, even when they mention its tags
+    return (
+      <>
+        {images.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-2">
+            {images.map(image => <MessageImage key={image.path} image={image} />)}
           </div>
-        );
-      }
-      return <p key={index} className="whitespace-pre-wrap">{part.content}</p>;
-    });
+        )}
+        {message.content && <Markdown root={parseMarkdown(message.content)} onAttachOutput={attachCodeOutput} />}
+      </>
+    );
+  };
+
+  const renderMessageActions = (message: Message) => {
+    if (message.isTyping || editingMessage === message.id) return null;
+
+    const siblings = childrenByParent.get(message.parent_id) ?? [message];
+    const position = siblings.findIndex(m => m.id === message.id);
+
+    return (
+      <div className="flex items-center gap-1 mt-1 px-1 text-xs text-gray-500">
+        {siblings.length > 1 && (
+          <div className="flex items-center gap-0.5">
+            <button
+              onClick={() => switchBranch(message, -1)}
+              disabled={position === 0 || loading}
+              className="p-0.5 hover:text-white disabled:opacity-30 disabled:hover:text-gray-500 transition"
+            >
+              <ChevronLeft size={14} />
+            </button>
+            <span className="tabular-nums">{position + 1}/{siblings.length}</span>
+            <button
+              onClick={() => switchBranch(message, 1)}
+              disabled={position === siblings.length - 1 || loading}
+              className="p-0.5 hover:text-white disabled:opacity-30 disabled:hover:text-gray-500 transition"
+            >
+              <ChevronRight size={14} />
+            </button>
+          </div>
+        )}
+        {message.role === 'assistant' && message.model_id && (
+          <span className="px-1 text-gray-600">
+            {[
+              findModel(message.model_provider ?? '', message.model_id)?.name ?? message.model_id,
+              message.prompt_tokens != null && message.completion_tokens != null &&
+                `${(message.prompt_tokens + message.completion_tokens).toLocaleString()} tokens`,
+              message.latency_ms != null && `${(message.latency_ms / 1000).toFixed(1)}s`,
+            ].filter(Boolean).join(' · ')}
+          </span>
+        )}
+        {message.cached && (
+          <span
+            title="Answered from the response cache"
+            className="flex items-center gap-1 px-1.5 py-0.5 rounded bg-emerald-500/10 text-emerald-400"
+          >
+            <DatabaseZap size={12} />
+            cached
+          </span>
+        )}
+        {!message.failed && (
+          <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+            {message.role === 'assistant' ? (
+              <button
+                onClick={() => regenerateResponse(message)}
+                disabled={loading}
+                title="Regenerate response"
+                className="p-1 hover:text-white disabled:opacity-30 transition"
+              >
+                <RotateCcw size={14} />
+              </button>
+            ) : (
+              <button
+                onClick={() => {
+                  setEditingMessage(message.id);
+                  setEditedContent(message.content);
+                }}
+                disabled={loading}
+                title="Edit and resubmit"
+                className="p-1 hover:text-white disabled:opacity-30 transition"
+              >
+                <Pencil size={14} />
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    );
   };
 
   if (!user) return null;
 
   return (
     <div className="min-h-screen bg-gradient-to-b from-gray-900 via-indigo-950 to-gray-900 pt-16">
+      <AnimatePresence>
+        {showSettings && activeConversation && activeSettings && (
+          <ConversationSettings
+            settings={activeSettings}
+            onSave={(settings) => {
+              saveConversationSettings(activeConversation.id, settings);
+              setShowSettings(false);
+            }}
+            onClose={() => setShowSettings(false)}
+          />
+        )}
+      </AnimatePresence>
+
       <div className="h-[calc(100vh-4rem)] flex">
         {/* Sidebar Toggle Button */}
         <motion.button
@@ -271,79 +1312,91 @@ export function Dashboard() {
             <Plus size={20} />
             New Chat
           </button>
-          <div className="flex-1 overflow-y-auto space-y-2">
-            {conversations.map((conv) => (
-              <div
-                key={conv.id}
-                className={`group relative rounded-lg transition ${
-                  currentConversation === conv.id
-                    ? 'bg-indigo-600/20'
-                    : 'hover:bg-white/5'
-                }`}
-              >
-                {editingTitle === conv.id ? (
-                  <div className="flex items-center p-2 gap-2">
-                    <input
-                      type="text"
-                      value={newTitle}
-                      onChange={(e) => setNewTitle(e.target.value)}
-                      className="flex-1 bg-black/30 text-white rounded px-2 py-1 text-sm"
-                      autoFocus
-                    />
-                    <button
-                      onClick={saveTitle}
-                      className="p-1 text-green-400 hover:text-green-300"
-                    >
-                      <Check size={16} />
-                    </button>
-                    <button
-                      onClick={() => setEditingTitle(null)}
-                      className="p-1 text-red-400 hover:text-red-300"
-                    >
-                      <X size={16} />
-                    </button>
-                  </div>
-                ) : (
-                  <button
-                    onClick={() => setCurrentConversation(conv.id)}
-                    className="w-full text-left px-4 py-2 flex items-center gap-2"
-                  >
-                    <MessageSquare size={16} className="text-gray-400" />
-                    <span className={`truncate ${
-                      currentConversation === conv.id
-                        ? 'text-white'
-                        : 'text-gray-400'
-                    }`}>
-                      {conv.title}
-                    </span>
-                  </button>
-                )}
-                
-                {currentConversation === conv.id && !editingTitle && (
-                  <div className="absolute right-2 top-1/2 -translate-y-1/2 flex gap-1">
-                    <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        startTitleEdit(conv);
-                      }}
-                      className="p-1 text-gray-400 hover:text-white transition"
-                    >
-                      <Pencil size={14} />
-                    </button>
+          <SearchPanel onOpen={openSearchResult}>
+            <div className="flex-1 overflow-y-auto space-y-2">
+              {conversations.map((conv) => (
+                <div
+                  key={conv.id}
+                  className={`group relative rounded-lg transition ${
+                    currentConversation === conv.id
+                      ? 'bg-indigo-600/20'
+                      : 'hover:bg-white/5'
+                  }`}
+                >
+                  {editingTitle === conv.id ? (
+                    <div className="flex items-center p-2 gap-2">
+                      <input
+                        type="text"
+                        value={newTitle}
+                        onChange={(e) => setNewTitle(e.target.value)}
+                        className="flex-1 bg-black/30 text-white rounded px-2 py-1 text-sm"
+                        autoFocus
+                      />
+                      <button
+                        onClick={saveTitle}
+                        className="p-1 text-green-400 hover:text-green-300"
+                      >
+                        <Check size={16} />
+                      </button>
+                      <button
+                        onClick={() => setEditingTitle(null)}
+                        className="p-1 text-red-400 hover:text-red-300"
+                      >
+                        <X size={16} />
+                      </button>
+                    </div>
+                  ) : (
                     <button
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        deleteConversation(conv.id);
-                      }}
-                      className="p-1 text-red-400 hover:text-red-300 transition"
+                      onClick={() => setCurrentConversation(conv.id)}
+                      className="w-full text-left px-4 py-2 flex items-center gap-2"
                     >
-                      <Trash2 size={14} />
+                      <MessageSquare size={16} className="text-gray-400" />
+                      <span className={`truncate ${
+                        currentConversation === conv.id
+                          ? 'text-white'
+                          : 'text-gray-400'
+                      }`}>
+                        {conv.title}
+                      </span>
                     </button>
-                  </div>
-                )}
-              </div>
-            ))}
-          </div>
+                  )}
+                  
+                  {currentConversation === conv.id && !editingTitle && (
+                    <div className="absolute right-2 top-1/2 -translate-y-1/2 flex gap-1">
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setShowSettings(true);
+                        }}
+                        title="Conversation settings"
+                        className="p-1 text-gray-400 hover:text-white transition"
+                      >
+                        <SlidersHorizontal size={14} />
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          startTitleEdit(conv);
+                        }}
+                        className="p-1 text-gray-400 hover:text-white transition"
+                      >
+                        <Pencil size={14} />
+                      </button>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          deleteConversation(conv.id);
+                        }}
+                        className="p-1 text-red-400 hover:text-red-300 transition"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </SearchPanel>
           
           {/* Model Selection Button */}
           <button
@@ -352,7 +1405,7 @@ export function Dashboard() {
           >
             <Bot size={16} />
             <span className="flex-1 text-left text-sm truncate">
-              {availableModels[selectedModel.provider].find(m => m.id === selectedModel.modelId)?.name}
+              {findModel(selectedModel.provider, selectedModel.modelId)?.name}
             </span>
             <Settings size={16} />
           </button>
@@ -363,56 +1416,144 @@ export function Dashboard() {
           className="flex-1 flex flex-col relative"
           animate={{ 
             marginLeft: sidebarOpen ? 0 : -256,
-            width: sidebarOpen ? 'calc(100% - 256px)' : '100%'
+            width: `calc(100% - ${(sidebarOpen ? 256 : 0) + (showArtifacts || showFiles ? SIDE_PANEL_WIDTH : 0)}px)`
           }}
           transition={{ duration: 0.3 }}
         >
+          <div className="absolute top-4 right-4 z-20 flex items-center gap-2">
+            {projectFiles.length > 0 && !showFiles && (
+              <button
+                onClick={() => {
+                  setArtifactSelection(null);
+                  setFilesOpen(true);
+                }}
+                title="Show files"
+                className="flex items-center gap-1.5 p-2 bg-black/30 backdrop-blur-sm border border-white/10 rounded-lg text-gray-400 hover:text-white transition-colors"
+              >
+                <FolderTree size={20} />
+                <span className="text-xs tabular-nums">{projectFiles.length}</span>
+              </button>
+            )}
+            {artifacts.length > 0 && !showArtifacts && (
+              <button
+                onClick={() => setArtifactSelection({ artifactId: artifacts[artifacts.length - 1].id, versionIndex: null })}
+                title="Show artifacts"
+                className="flex items-center gap-1.5 p-2 bg-black/30 backdrop-blur-sm border border-white/10 rounded-lg text-gray-400 hover:text-white transition-colors"
+              >
+                <AppWindow size={20} />
+                <span className="text-xs tabular-nums">{artifacts.length}</span>
+              </button>
+            )}
+          </div>
           {/* Model Selection Dropdown */}
           {showModelSelect && (
             <div className="absolute bottom-20 left-4 right-4 bg-gray-900 rounded-lg border border-white/10 shadow-xl z-10">
               <div className="p-4">
                 <h3 className="text-white font-semibold mb-4">Select AI Model</h3>
                 <div className="space-y-4">
+                  {listProviders().map((provider) => (
+                    <div key={provider.id}>
+                      <h4 className="text-gray-400 text-sm mb-2">{provider.name} Models</h4>
+                      <div className="space-y-2">
+                        {provider.models.map((model) => {
+                          const fallbackIndex = fallbackModels.findIndex(m =>
+                            m.provider === provider.id && m.modelId === model.id
+                          );
+                          return (
+                            <div key={model.id} className="flex items-center gap-2">
+                              <button
+                                onClick={() => {
+                                  selectModel({ provider: provider.id, modelId: model.id });
+                                  setShowModelSelect(false);
+                                }}
+                                className={`flex-1 text-left px-3 py-2 rounded ${
+                                  selectedModel.provider === provider.id && selectedModel.modelId === model.id
+                                    ? 'bg-indigo-600/20 text-white'
+                                    : 'text-gray-400 hover:bg-white/5'
+                                }`}
+                              >
+                                {model.name}
+                              </button>
+                              <button
+                                onClick={() => toggleFallbackModel({ provider: provider.id, modelId: model.id })}
+                                title="Try this model when the selected one fails"
+                                className={`px-2 py-1 rounded text-xs transition ${
+                                  fallbackIndex >= 0
+                                    ? 'bg-amber-500/20 text-amber-300'
+                                    : 'text-gray-500 hover:text-gray-300 hover:bg-white/5'
+                                }`}
+                              >
+                                {fallbackIndex >= 0 ? `Fallback #${fallbackIndex + 1}` : 'Fallback'}
+                              </button>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  ))}
                   <div>
-                    <h4 className="text-gray-400 text-sm mb-2">OpenRouter Models</h4>
-                    <div className="space-y-2">
-                      {availableModels.openrouter.map((model) => (
-                        <button
-                          key={model.id}
-                          onClick={() => {
-                            setSelectedModel({ provider: 'openrouter', modelId: model.id });
-                            setShowModelSelect(false);
-                          }}
-                          className={`w-full text-left px-3 py-2 rounded ${
-                            selectedModel.provider === 'openrouter' && selectedModel.modelId === model.id
-                              ? 'bg-indigo-600/20 text-white'
-                              : 'text-gray-400 hover:bg-white/5'
-                          }`}
-                        >
-                          {model.name}
-                        </button>
-                      ))}
+                    <h4 className="text-gray-400 text-sm mb-2">Reasoning</h4>
+                    <div className="space-y-2 px-3">
+                      <label className="flex items-center gap-2 text-sm text-gray-300">
+                        <input
+                          type="checkbox"
+                          checked={reasoningPreferences.saveReasoning}
+                          onChange={(e) => updateReasoningPreferences({ saveReasoning: e.target.checked })}
+                          className="accent-indigo-500"
+                        />
+                        Save reasoning with messages
+                      </label>
+                      <label className="flex items-center gap-2 text-sm text-gray-300">
+                        <input
+                          type="checkbox"
+                          checked={reasoningPreferences.sendReasoning}
+                          onChange={(e) => updateReasoningPreferences({ sendReasoning: e.target.checked })}
+                          className="accent-indigo-500"
+                        />
+                        Send earlier reasoning back to the model
+                      </label>
                     </div>
                   </div>
                   <div>
-                    <h4 className="text-gray-400 text-sm mb-2">Gemini Models</h4>
-                    <div className="space-y-2">
-                      {availableModels.gemini.map((model) => (
+                    <h4 className="text-gray-400 text-sm mb-2">Response cache</h4>
+                    <div className="space-y-2 px-3">
+                      <label className="flex items-center gap-2 text-sm text-gray-300">
+                        <input
+                          type="checkbox"
+                          checked={cachePreferences.enabled}
+                          onChange={(e) => updateCachePreferences({ enabled: e.target.checked })}
+                          className="accent-indigo-500"
+                        />
+                        Reuse answers to identical requests
+                      </label>
+                      <label className="flex items-center gap-2 text-sm text-gray-300">
+                        <input
+                          type="checkbox"
+                          checked={cachePreferences.shared}
+                          disabled={!cachePreferences.enabled}
+                          onChange={(e) => updateCachePreferences({ shared: e.target.checked })}
+                          className="accent-indigo-500"
+                        />
+                        Sync cached answers across your devices
+                      </label>
+                      <div className="flex items-center gap-2 text-sm text-gray-300">
+                        <span>Keep answers for</span>
+                        <input
+                          type="number"
+                          min={1}
+                          value={cachePreferences.ttlHours}
+                          disabled={!cachePreferences.enabled}
+                          onChange={(e) => updateCachePreferences({ ttlHours: Math.max(1, Number(e.target.value) || 1) })}
+                          className="w-16 px-2 py-1 rounded bg-white/5 border border-white/10 text-white focus:outline-none focus:border-indigo-500/50 disabled:opacity-50"
+                        />
+                        <span>hours</span>
                         <button
-                          key={model.id}
-                          onClick={() => {
-                            setSelectedModel({ provider: 'gemini', modelId: model.id });
-                            setShowModelSelect(false);
-                          }}
-                          className={`w-full text-left px-3 py-2 rounded ${
-                            selectedModel.provider === 'gemini' && selectedModel.modelId === model.id
-                              ? 'bg-indigo-600/20 text-white'
-                              : 'text-gray-400 hover:bg-white/5'
-                          }`}
+                          onClick={clearResponseCache}
+                          className="ml-auto px-2 py-1 rounded text-xs text-gray-400 hover:text-white hover:bg-white/5 transition"
                         >
-                          {model.name}
+                          Clear
                         </button>
-                      ))}
+                      </div>
                     </div>
                   </div>
                 </div>
@@ -420,39 +1561,131 @@ export function Dashboard() {
             </div>
           )}
 
-          <div className="flex-1 overflow-y-auto p-4 space-y-4">
-            {messages.map((message) => (
-              <div
-                key={message.id}
-                className={`flex ${
-                  message.role === 'assistant' ? 'justify-start' : 'justify-end'
-                }`}
-              >
-                <div
-                  className={`max-w-[80%] rounded-lg p-4 ${
-                    message.role === 'assistant'
-                      ? 'bg-gray-800/50 text-white'
-                      : 'bg-indigo-600/20 text-white'
-                  }`}
+          <div ref={messageListRef} className="flex-1 overflow-y-auto p-4">
+            {hasEarlierMessages && (
+              <div className="sticky top-0 z-10 h-0 flex justify-center">
+                <button
+                  onClick={loadEarlierMessages}
+                  disabled={loadingEarlier}
+                  className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-gray-900/90 border border-white/10 text-xs text-gray-300 hover:text-white disabled:opacity-50 transition"
                 >
-                  {renderMessageContent(message)}
-                </div>
+                  {loadingEarlier ? <Loader2 size={12} className="animate-spin" /> : <History size={12} />}
+                  Load earlier messages
+                </button>
               </div>
-            ))}
-            {isThinking && (
-              <motion.div
-                initial={{ opacity: 0, y: 10 }}
-                animate={{ opacity: 1, y: 0 }}
-                className="flex justify-start"
-              >
-                <div className="max-w-[80%] rounded-lg p-4 bg-gray-800/50">
-                  <div className="flex items-center gap-3">
-                    <Loader2 className="w-5 h-5 text-indigo-400 animate-spin" />
-                    <span className="text-gray-300">AI is thinking...</span>
-                  </div>
-                </div>
-              </motion.div>
             )}
+            <div className="relative" style={{ height: messageVirtualizer.getTotalSize() }}>
+              {messageVirtualizer.getVirtualItems().map((item) => {
+                const message = visibleMessages[item.index];
+                return (
+                  <div
+                    key={item.key}
+                    data-index={item.index}
+                    ref={messageVirtualizer.measureElement}
+                    className="absolute top-0 left-0 w-full pb-4 space-y-4"
+                    style={{ transform: `translateY(${item.start}px)` }}
+                  >
+                    {message.role === 'tool' ? (
+                      <div className="flex flex-col items-start">
+                        <ToolCallCard
+                          name={message.tool_name ?? 'tool'}
+                          args={visibleMessages
+                            .flatMap(m => m.tool_calls ?? [])
+                            .find(call => call.id === message.tool_call_id)?.arguments}
+                          result={message.isTyping ? undefined : message.content}
+                        />
+                      </div>
+                    ) : (
+                      <div
+                        className={`group flex flex-col ${
+                          message.role === 'assistant' ? 'items-start' : 'items-end'
+                        }`}
+                      >
+                        <div
+                          className={`max-w-[80%] rounded-lg p-4 ${
+                            message.id === focusedMessageId ? 'ring-2 ring-indigo-400/60' : ''
+                          } ${
+                            message.failed
+                              ? 'bg-red-500/10 border border-red-500/30 text-white'
+                              : message.role === 'assistant'
+                              ? 'bg-gray-800/50 text-white'
+                              : 'bg-indigo-600/20 text-white'
+                          }`}
+                        >
+                          {editingMessage === message.id ? (
+                            <div className="space-y-2 min-w-[20rem]">
+                              <textarea
+                                value={editedContent}
+                                onChange={(e) => setEditedContent(e.target.value)}
+                                rows={Math.min(10, editedContent.split('\n').length + 1)}
+                                className="w-full bg-black/30 text-white rounded-lg px-3 py-2 text-sm border border-white/10 focus:outline-none focus:ring-1 focus:ring-indigo-500/50 resize-y"
+                                autoFocus
+                              />
+                              <div className="flex justify-end gap-2">
+                                <button
+                                  onClick={() => setEditingMessage(null)}
+                                  className="px-3 py-1.5 rounded-lg text-sm text-gray-400 hover:text-white hover:bg-white/5 transition"
+                                >
+                                  Cancel
+                                </button>
+                                <button
+                                  onClick={() => submitEditedMessage(message)}
+                                  disabled={loading || !editedContent.trim()}
+                                  className="px-3 py-1.5 rounded-lg text-sm bg-indigo-600/30 text-white hover:bg-indigo-600/40 disabled:opacity-50 transition"
+                                >
+                                  Save & Submit
+                                </button>
+                              </div>
+                            </div>
+                          ) : (
+                            renderMessageContent(message)
+                          )}
+                        </div>
+                        {renderMessageActions(message)}
+                      </div>
+                    )}
+                    {activeConversation?.summary && activeConversation.summary_message_id === message.id && (
+                      <button
+                        onClick={() => setShowSettings(true)}
+                        title="View or edit the summary"
+                        className="w-full flex items-center gap-3 text-xs text-gray-500 hover:text-gray-300 transition"
+                      >
+                        <span className="flex-1 border-t border-dashed border-white/10" />
+                        <span className="flex items-center gap-1.5">
+                          <Layers size={12} />
+                          Earlier messages are sent as a summary
+                        </span>
+                        <span className="flex-1 border-t border-dashed border-white/10" />
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            <div className="space-y-4">
+              {comparison && comparison.conversationId === currentConversation && (
+                <CompareView
+                  results={comparison.results}
+                  busy={isThinking || loading}
+                  onPick={keepComparisonResult}
+                  onDiscard={() => setComparison(null)}
+                />
+              )}
+              {isThinking && !comparison && !messages.some(m => m.isTyping) && (
+                <motion.div
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className="flex justify-start"
+                >
+                  <div className="max-w-[80%] rounded-lg p-4 bg-gray-800/50">
+                    <div className="flex items-center gap-3">
+                      <Loader2 className="w-5 h-5 text-indigo-400 animate-spin" />
+                      <span className="text-gray-300">AI is thinking...</span>
+                    </div>
+                  </div>
+                </motion.div>
+              )}
+            </div>
             <div ref={messagesEndRef} />
           </div>
 
@@ -461,6 +1694,7 @@ export function Dashboard() {
             <AnimatePresence>
               {showImageUpload && (
                 <motion.div
+                  key="image-upload"
                   initial={{ opacity: 0, height: 0 }}
                   animate={{ opacity: 1, height: 'auto' }}
                   exit={{ opacity: 0, height: 0 }}
@@ -469,6 +1703,95 @@ export function Dashboard() {
                   <ImageAnalysis onAnalysisComplete={handleImageAnalysisComplete} />
                 </motion.div>
               )}
+              {compareMode && (
+                <motion.div
+                  key="compare-models"
+                  initial={{ opacity: 0, height: 0 }}
+                  animate={{ opacity: 1, height: 'auto' }}
+                  exit={{ opacity: 0, height: 0 }}
+                  className="mb-3 flex flex-wrap items-center gap-2"
+                >
+                  <span className="text-xs text-gray-400">Compare:</span>
+                  {listProviders().flatMap(provider => provider.models.map(model => {
+                    const selected = compareModels.some(m => m.provider === provider.id && m.modelId === model.id);
+                    return (
+                      <button
+                        key={`${provider.id}/${model.id}`}
+                        type="button"
+                        onClick={() => toggleCompareModel({ provider: provider.id, modelId: model.id })}
+                        className={`px-2.5 py-1 rounded-full text-xs border transition ${
+                          selected
+                            ? 'bg-indigo-600/30 border-indigo-500/50 text-white'
+                            : 'border-white/10 text-gray-400 hover:text-white'
+                        }`}
+                      >
+                        {model.name}
+                      </button>
+                    );
+                  }))}
+                  {compareModels.length < 2 && (
+                    <span className="text-xs text-amber-300">Select at least two models</span>
+                  )}
+                </motion.div>
+              )}
+              {codeOutputs.length > 0 && (
+                <motion.div
+                  key="code-outputs"
+                  initial={{ opacity: 0, height: 0 }}
+                  animate={{ opacity: 1, height: 'auto' }}
+                  exit={{ opacity: 0, height: 0 }}
+                  className="mb-3 flex flex-wrap items-center gap-2"
+                >
+                  {codeOutputs.map((output, index) => (
+                    <span
+                      key={index}
+                      title={output}
+                      className="flex items-center gap-1.5 pl-2.5 pr-1 py-1 rounded-full text-xs bg-white/5 border border-white/10 text-gray-300"
+                    >
+                      <Terminal size={12} className="text-indigo-400" />
+                      Code output {codeOutputs.length > 1 ? index + 1 : ''}
+                      <button
+                        type="button"
+                        onClick={() => setCodeOutputs(prev => prev.filter((_, i) => i !== index))}
+                        title="Don't send this output"
+                        className="p-0.5 rounded-full hover:bg-white/10 hover:text-white transition"
+                      >
+                        <X size={12} />
+                      </button>
+                    </span>
+                  ))}
+                </motion.div>
+              )}
+              {jsonMode && (
+                <motion.div
+                  key="json-schema"
+                  initial={{ opacity: 0, height: 0 }}
+                  animate={{ opacity: 1, height: 'auto' }}
+                  exit={{ opacity: 0, height: 0 }}
+                  className="mb-3"
+                >
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="text-xs text-gray-400">Reply as JSON matching this schema:</span>
+                    {compareMode ? (
+                      <span className="text-xs text-amber-300">Not used when comparing models</span>
+                    ) : schemaError && (
+                      <span className="text-xs text-red-400">{schemaError}</span>
+                    )}
+                  </div>
+                  <textarea
+                    value={schemaText}
+                    onChange={(e) => {
+                      setSchemaText(e.target.value);
+                      saveOutputSchema(e.target.value);
+                    }}
+                    rows={6}
+                    spellCheck={false}
+                    className={`w-full bg-black/30 text-white rounded-lg px-3 py-2 text-xs font-mono border focus:outline-none focus:ring-1 focus:ring-indigo-500/50 resize-y ${
+                      schemaError ? 'border-red-500/50' : 'border-white/10'
+                    }`}
+                  />
+                </motion.div>
+              )}
             </AnimatePresence>
             
             <motion.div 
@@ -481,14 +1804,53 @@ export function Dashboard() {
                 <button
                   type="button"
                   onClick={() => setShowImageUpload(!showImageUpload)}
+                  title={attachedImage ? 'Image attached' : 'Attach an image'}
                   className={`absolute left-2 p-2 rounded-full transition-colors ${
-                    showImageUpload
+                    showImageUpload || attachedImage
                       ? 'text-indigo-400 bg-indigo-400/10'
                       : 'text-gray-400 hover:text-gray-300'
                   }`}
                 >
                   <Paperclip size={20} className="transition-transform hover:scale-110" />
                 </button>
+                <button
+                  type="button"
+                  onClick={() => setCompareMode(!compareMode)}
+                  title="Compare models side by side"
+                  className={`absolute left-11 p-2 rounded-full transition-colors ${
+                    compareMode
+                      ? 'text-indigo-400 bg-indigo-400/10'
+                      : 'text-gray-400 hover:text-gray-300'
+                  }`}
+                >
+                  <Columns size={20} className="transition-transform hover:scale-110" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setJsonMode(!jsonMode)}
+                  title="Reply as JSON matching a schema"
+                  className={`absolute left-20 p-2 rounded-full transition-colors ${
+                    jsonMode
+                      ? 'text-indigo-400 bg-indigo-400/10'
+                      : 'text-gray-400 hover:text-gray-300'
+                  }`}
+                >
+                  <Braces size={20} className="transition-transform hover:scale-110" />
+                </button>
+                {cachePreferences.enabled && !compareMode && (
+                  <button
+                    type="button"
+                    onClick={() => setBypassCache(!bypassCache)}
+                    title={bypassCache ? 'The next answer skips the cache' : 'Skip the response cache for the next answer'}
+                    className={`absolute right-11 p-2 rounded-full transition-colors ${
+                      bypassCache
+                        ? 'text-amber-400 bg-amber-400/10'
+                        : 'text-gray-400 hover:text-gray-300'
+                    }`}
+                  >
+                    <DatabaseZap size={20} className="transition-transform hover:scale-110" />
+                  </button>
+                )}
                 <input
                   ref={inputRef}
                   type="text"
@@ -497,12 +1859,26 @@ export function Dashboard() {
                   onFocus={() => setIsFocused(true)}
                   onBlur={() => setIsFocused(false)}
                   placeholder="Type your message..."
-                  className="w-full py-3 pl-12 pr-12 rounded-xl bg-white/5 border border-white/10 text-white placeholder-gray-400 focus:outline-none focus:ring-1 focus:ring-indigo-500/50 focus:border-indigo-500/50 focus:shadow-[0_0_20px_rgba(99,102,241,0.1)] transition-all duration-200"
+                  className={`w-full py-3 pl-28 ${cachePreferences.enabled && !compareMode ? 'pr-20' : 'pr-12'} rounded-xl bg-white/5 border border-white/10 text-white placeholder-gray-400 focus:outline-none focus:ring-1 focus:ring-indigo-500/50 focus:border-indigo-500/50 focus:shadow-[0_0_20px_rgba(99,102,241,0.1)] transition-all duration-200`}
                   disabled={loading}
                 />
                 <AnimatePresence>
-                  {input.trim() && (
+                  {isThinking ? (
                     <motion.button
+                      key="stop"
+                      initial={{ scale: 0.8, opacity: 0 }}
+                      animate={{ scale: 1, opacity: 1 }}
+                      exit={{ scale: 0.8, opacity: 0 }}
+                      type="button"
+                      onClick={stopGeneration}
+                      title="Stop generating"
+                      className="absolute right-2 p-2 text-white/80 hover:text-white rounded-full hover:bg-white/5 transition-colors"
+                    >
+                      <Square className="w-5 h-5 fill-current" />
+                    </motion.button>
+                  ) : (input.trim() || codeOutputs.length > 0) && (
+                    <motion.button
+                      key="send"
                       initial={{ scale: 0.8, opacity: 0 }}
                       animate={{ scale: 1, opacity: 1 }}
                       exit={{ scale: 0.8, opacity: 0 }}
@@ -522,6 +1898,24 @@ export function Dashboard() {
             </motion.div>
           </form>
         </motion.div>
+
+        <AnimatePresence>
+          {showArtifacts && (
+            <ArtifactPanel
+              artifacts={artifacts}
+              selection={artifactSelection}
+              onSelect={setArtifactSelection}
+              onClose={() => setArtifactSelection(null)}
+            />
+          )}
+          {showFiles && (
+            <FilesPanel
+              files={projectFiles}
+              title={activeConversation?.title ?? 'project'}
+              onClose={() => setFilesOpen(false)}
+            />
+          )}
+        </AnimatePresence>
       </div>
     </div>
   );
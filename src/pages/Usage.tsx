@@ -0,0 +1,217 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Loader2, Coins, Hash, MessageSquare, Clock } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { findModel } from '../lib/providers';
+import { formatCost } from '../lib/pricing';
+
+interface UsageRow {
+  day: string;
+  model_provider: string;
+  model_id: string;
+  message_count: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  cost_usd: number;
+  avg_latency_ms: number | null;
+}
+
+interface UsageTotals {
+  messages: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  // Sum of latency over replies, for averaging
+  latency: number;
+}
+
+const RANGES = [7, 30, 90] as const;
+
+function emptyTotals(): UsageTotals {
+  return { messages: 0, promptTokens: 0, completionTokens: 0, cost: 0, latency: 0 };
+}
+
+function addRow(totals: UsageTotals, row: UsageRow): UsageTotals {
+  const count = Number(row.message_count);
+  return {
+    messages: totals.messages + count,
+    promptTokens: totals.promptTokens + Number(row.prompt_tokens),
+    completionTokens: totals.completionTokens + Number(row.completion_tokens),
+    cost: totals.cost + Number(row.cost_usd),
+    latency: totals.latency + Number(row.avg_latency_ms ?? 0) * count,
+  };
+}
+
+function groupTotals(rows: UsageRow[], key: (row: UsageRow) => string): [string, UsageTotals][] {
+  const groups = new Map<string, UsageTotals>();
+  for (const row of rows) {
+    groups.set(key(row), addRow(groups.get(key(row)) ?? emptyTotals(), row));
+  }
+  return [...groups.entries()];
+}
+
+export function Usage() {
+  const navigate = useNavigate();
+  const [days, setDays] = useState<typeof RANGES[number]>(30);
+  const [rows, setRows] = useState<UsageRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (!session) navigate('/login');
+    });
+  }, [navigate]);
+
+  useEffect(() => {
+    const loadUsage = async () => {
+      setLoading(true);
+      setError(null);
+
+      const since = new Date();
+      since.setUTCDate(since.getUTCDate() - days + 1);
+      since.setUTCHours(0, 0, 0, 0);
+
+      const { data, error } = await supabase.rpc('get_usage_summary', { since: since.toISOString() });
+
+      if (error) {
+        setError('Failed to load usage data.');
+      } else {
+        setRows(data ?? []);
+      }
+      setLoading(false);
+    };
+
+    loadUsage();
+  }, [days]);
+
+  const totals = rows.reduce(addRow, emptyTotals());
+  const byDay = groupTotals(rows, row => row.day).sort(([a], [b]) => b.localeCompare(a));
+  const byModel = groupTotals(rows, row => `${row.model_provider}/${row.model_id}`)
+    .sort(([, a], [, b]) => b.cost - a.cost || b.messages - a.messages);
+  const maxDayTokens = Math.max(1, ...byDay.map(([, t]) => t.promptTokens + t.completionTokens));
+
+  const modelName = (key: string) => {
+    const [provider, ...rest] = key.split('/');
+    const modelId = rest.join('/');
+    return findModel(provider, modelId)?.name ?? modelId;
+  };
+
+  const stats = [
+    { label: 'Estimated cost', value: formatCost(totals.cost), icon: Coins, color: 'text-amber-400' },
+    { label: 'Tokens', value: (totals.promptTokens + totals.completionTokens).toLocaleString(), icon: Hash, color: 'text-indigo-400' },
+    { label: 'Replies', value: totals.messages.toLocaleString(), icon: MessageSquare, color: 'text-cyan-400' },
+    {
+      label: 'Avg latency',
+      value: totals.messages ? `${(totals.latency / totals.messages / 1000).toFixed(1)}s` : '—',
+      icon: Clock,
+      color: 'text-purple-400'
+    },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-gray-900 via-indigo-950 to-gray-900 pt-16">
+      <div className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-bold text-white">Usage</h1>
+          <div className="flex gap-1 p-1 rounded-lg bg-black/30 border border-white/10">
+            {RANGES.map((range) => (
+              <button
+                key={range}
+                onClick={() => setDays(range)}
+                className={`px-3 py-1 rounded text-sm transition ${
+                  days === range ? 'bg-indigo-600/30 text-white' : 'text-gray-400 hover:text-white'
+                }`}
+              >
+                {range} days
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {error && (
+          <div className="text-sm p-3 rounded-lg bg-red-500/20 border border-red-500/30 text-red-400">
+            {error}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="w-8 h-8 text-indigo-400 animate-spin" />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {stats.map(({ label, value, icon: Icon, color }) => (
+                <div key={label} className="p-4 rounded-lg bg-black/30 border border-white/10">
+                  <div className="flex items-center gap-2 text-sm text-gray-400 mb-1">
+                    <Icon className={`w-4 h-4 ${color}`} />
+                    {label}
+                  </div>
+                  <div className="text-2xl font-semibold text-white">{value}</div>
+                </div>
+              ))}
+            </div>
+
+            <section className="rounded-lg bg-black/30 border border-white/10 p-4">
+              <h2 className="text-white font-semibold mb-4">By model</h2>
+              {byModel.length === 0 ? (
+                <p className="text-sm text-gray-400">No usage in this period.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-400 border-b border-white/10">
+                      <th className="py-2 font-normal">Model</th>
+                      <th className="py-2 font-normal text-right">Replies</th>
+                      <th className="py-2 font-normal text-right">Prompt tokens</th>
+                      <th className="py-2 font-normal text-right">Completion tokens</th>
+                      <th className="py-2 font-normal text-right">Avg latency</th>
+                      <th className="py-2 font-normal text-right">Cost</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {byModel.map(([key, t]) => (
+                      <tr key={key} className="text-gray-200 border-b border-white/5">
+                        <td className="py-2">{modelName(key)}</td>
+                        <td className="py-2 text-right">{t.messages.toLocaleString()}</td>
+                        <td className="py-2 text-right">{t.promptTokens.toLocaleString()}</td>
+                        <td className="py-2 text-right">{t.completionTokens.toLocaleString()}</td>
+                        <td className="py-2 text-right">{(t.latency / t.messages / 1000).toFixed(1)}s</td>
+                        <td className="py-2 text-right">{formatCost(t.cost)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </section>
+
+            <section className="rounded-lg bg-black/30 border border-white/10 p-4">
+              <h2 className="text-white font-semibold mb-4">By day</h2>
+              {byDay.length === 0 ? (
+                <p className="text-sm text-gray-400">No usage in this period.</p>
+              ) : (
+                <div className="space-y-2">
+                  {byDay.map(([day, t]) => (
+                    <div key={day} className="flex items-center gap-4 text-sm">
+                      <span className="w-24 text-gray-400 tabular-nums">{day}</span>
+                      <div className="flex-1 h-2 rounded-full bg-white/5 overflow-hidden">
+                        <div
+                          className="h-full bg-gradient-to-r from-indigo-500 to-purple-500"
+                          style={{ width: `${((t.promptTokens + t.completionTokens) / maxDayTokens) * 100}%` }}
+                        />
+                      </div>
+                      <span className="w-28 text-right text-gray-300 tabular-nums">
+                        {(t.promptTokens + t.completionTokens).toLocaleString()} tok
+                      </span>
+                      <span className="w-20 text-right text-gray-300 tabular-nums">{formatCost(t.cost)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
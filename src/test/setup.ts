@@ -0,0 +1,15 @@
+import { afterEach } from 'vitest';
+import { cleanup } from '@testing-library/react';
+
+// jsdom doesn't lay anything out
+Element.prototype.scrollIntoView = () => {};
+// Give every element a size, so virtualized lists render some rows
+Object.defineProperties(HTMLElement.prototype, {
+  offsetHeight: { configurable: true, get: () => 600 },
+  offsetWidth: { configurable: true, get: () => 800 },
+});
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+});
@@ -0,0 +1,245 @@
+// In-memory replacement for the Supabase client, covering the parts of the
+// query builder the app uses. Row level security is not modelled: every row
+// belongs to the signed-in test user.
+
+type Row = Record<string, unknown>;
+type Filter = (row: Row) => boolean;
+
+export const TEST_USER = { id: 'user-1', email: 'test@example.com' };
+
+// Columns filled in by the database when a row is inserted without them
+const COLUMN_DEFAULTS: Record<string, Row> = {
+  conversations: {
+    title: 'New Conversation',
+    system_prompt: '',
+    stop_sequences: [],
+    summary: '',
+  },
+  messages: {
+    sibling_index: 0,
+    truncated: false,
+    attachments: [],
+    cached: false,
+  },
+};
+
+// Text comparisons, as `lt` and the other filters make them
+const COMPARISONS: Record<string, (a: string, b: string) => boolean> = {
+  eq: (a, b) => a === b,
+  neq: (a, b) => a !== b,
+  lt: (a, b) => a < b,
+  lte: (a, b) => a <= b,
+  gt: (a, b) => a > b,
+  gte: (a, b) => a >= b,
+};
+
+// Splits at the commas outside parentheses and double quotes
+function splitConditions(expression: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let start = 0;
+  for (let i = 0; i < expression.length; i++) {
+    const char = expression[i];
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && char === '(') depth++;
+    else if (!quoted && char === ')') depth--;
+    else if (!quoted && depth === 0 && char === ',') {
+      parts.push(expression.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(expression.slice(start));
+  return parts;
+}
+
+// One condition of a PostgREST logic tree, as passed to `or`:
+// `created_at.lt."2026-01-01"` or `and(a.eq.1,b.lt.2)`
+function parseCondition(condition: string): Filter {
+  const group = condition.match(/^(and|or)\((.*)\)$/s);
+  if (group) {
+    const conditions = splitConditions(group[2]).map(parseCondition);
+    return group[1] === 'and'
+      ? row => conditions.every(f => f(row))
+      : row => conditions.some(f => f(row));
+  }
+  const [, column, operator, raw] = condition.match(/^(\w+)\.(\w+)\.(.*)$/s) ?? [];
+  const compare = COMPARISONS[operator];
+  if (!compare) throw new Error(`Unsupported condition: ${condition}`);
+  const value = raw.replace(/^"(.*)"$/s, '$1');
+  return row => compare(String(row[column]), value);
+}
+
+export function createSupabaseStandIn(seed: Record<string, Row[]> = {}) {
+  const tables: Record<string, Row[]> = Object.fromEntries(
+    Object.entries(seed).map(([name, rows]) => [name, rows.map(row => ({ ...row }))])
+  );
+  // Database functions for `rpc`; tests add others. Unknown ones return no rows.
+  const functions: Record<string, (params: Row) => Row[]> = {
+    get_branch_messages: ({ leaf_id, stop_at_id }) => {
+      const branch: Row[] = [];
+      let node = tables.messages?.find(m => m.id === leaf_id);
+      while (node) {
+        branch.unshift(node);
+        if (node.id === stop_at_id) break;
+        const parentId = node.parent_id;
+        node = parentId ? tables.messages.find(m => m.id === parentId) : undefined;
+      }
+      return structuredClone(branch);
+    },
+  };
+  let clock = Date.parse('2026-01-01T00:00:00Z');
+  let ids = 0;
+
+  // Strictly increasing, so ordering by created_at is deterministic
+  const now = () => new Date(clock++).toISOString();
+
+  const from = (table: string) => {
+    let operation: 'select' | 'insert' | 'update' | 'delete' = 'select';
+    let payload: Row | Row[] = {};
+    let returning = false;
+    let single = false;
+    let limit: number | undefined;
+    const orders: { column: string; ascending: boolean }[] = [];
+    const filters: Filter[] = [];
+
+    const run = () => {
+      const rows = (tables[table] ??= []);
+      let result: Row[];
+
+      switch (operation) {
+        case 'insert':
+          result = (payload as Row[]).map(values => ({
+            id: `${table}-${++ids}`,
+            user_id: TEST_USER.id,
+            created_at: now(),
+            updated_at: now(),
+            ...COLUMN_DEFAULTS[table],
+            ...values,
+          }));
+          rows.push(...result);
+          break;
+        case 'update':
+          result = rows.filter(row => filters.every(f => f(row)));
+          result.forEach(row => Object.assign(row, payload));
+          break;
+        case 'delete':
+          result = rows.filter(row => filters.every(f => f(row)));
+          tables[table] = rows.filter(row => !result.includes(row));
+          break;
+        default:
+          result = rows.filter(row => filters.every(f => f(row)));
+      }
+
+      if (operation !== 'select' && !returning) {
+        return { data: null, error: null };
+      }
+      if (orders.length) {
+        result = [...result].sort((a, b) => {
+          for (const { column, ascending } of orders) {
+            const difference = String(a[column]).localeCompare(String(b[column]));
+            if (difference) return ascending ? difference : -difference;
+          }
+          return 0;
+        });
+      }
+      if (limit !== undefined) result = result.slice(0, limit);
+
+      const data = structuredClone(result);
+      if (single) {
+        return data.length === 1
+          ? { data: data[0], error: null }
+          : { data: null, error: { message: `Expected one row, found ${data.length}` } };
+      }
+      return { data, error: null };
+    };
+
+    const builder = {
+      select() {
+        returning = true;
+        return builder;
+      },
+      insert(rows: Row[]) {
+        operation = 'insert';
+        payload = rows;
+        return builder;
+      },
+      update(values: Row) {
+        operation = 'update';
+        payload = values;
+        return builder;
+      },
+      delete() {
+        operation = 'delete';
+        return builder;
+      },
+      eq(column: string, value: unknown) {
+        filters.push(row => row[column] === value);
+        return builder;
+      },
+      neq(column: string, value: unknown) {
+        filters.push(row => row[column] !== value);
+        return builder;
+      },
+      lt(column: string, value: string) {
+        filters.push(row => String(row[column]) < value);
+        return builder;
+      },
+      or(expression: string) {
+        const conditions = splitConditions(expression).map(parseCondition);
+        filters.push(row => conditions.some(f => f(row)));
+        return builder;
+      },
+      in(column: string, values: unknown[]) {
+        filters.push(row => values.includes(row[column]));
+        return builder;
+      },
+      ilike(column: string, pattern: string) {
+        const regex = new RegExp(
+          '^' + pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*').replace(/_/g, '.') + '$',
+          'is'
+        );
+        filters.push(row => regex.test(String(row[column] ?? '')));
+        return builder;
+      },
+      order(column: string, { ascending = true }: { ascending?: boolean } = {}) {
+        orders.push({ column, ascending });
+        return builder;
+      },
+      limit(count: number) {
+        limit = count;
+        return builder;
+      },
+      single() {
+        single = true;
+        return builder;
+      },
+      then<T>(resolve: (result: ReturnType<typeof run>) => T, reject?: (error: unknown) => T) {
+        return Promise.resolve().then(run).then(resolve, reject);
+      },
+    };
+    return builder;
+  };
+
+  const session = { user: TEST_USER, access_token: 'test-token' };
+
+  const supabase = {
+    from,
+    rpc: async (name: string, params: Row = {}) => ({ data: functions[name]?.(params) ?? [], error: null }),
+    auth: {
+      getSession: async () => ({ data: { session }, error: null }),
+      getUser: async () => ({ data: { user: TEST_USER }, error: null }),
+      onAuthStateChange: () => ({ data: { subscription: { unsubscribe() {} } } }),
+      signOut: async () => ({ error: null }),
+    },
+    storage: {
+      from: () => ({
+        upload: async (path: string) => ({ data: { path }, error: null }),
+        download: async () => ({ data: new Blob(), error: null }),
+        createSignedUrl: async (path: string) => ({ data: { signedUrl: `blob:${path}` }, error: null }),
+      }),
+    },
+  };
+
+  return { supabase, tables, functions };
+}
@@ -0,0 +1,10 @@
+// Saves `blob` through the browser's download prompt
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoked later so the download has started before the URL goes away
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,80 @@
+import { fromMarkdown } from 'mdast-util-from-markdown';
+import { gfm } from 'micromark-extension-gfm';
+import { gfmFromMarkdown } from 'mdast-util-gfm';
+import { math } from 'micromark-extension-math';
+import { mathFromMarkdown } from 'mdast-util-math';
+import type { Code, Definition, Nodes, Root, RootContent } from 'mdast';
+
+export type { Code, Root, RootContent, PhrasingContent, Nodes } from 'mdast';
+
+// Parses GitHub Flavored Markdown, plus $inline$ and $$display$$ TeX math,
+// into an mdast tree. Raw HTML comes back as `html` nodes, which the renderer
+// shows as text. Unfinished constructs in a reply that is still streaming (an
+// open fence, a lone `**`) are valid Markdown too: a fence runs to the end, an
+// unmatched marker stays literal.
+export function parseMarkdown(markdown: string): Root {
+  return fromMarkdown(markdown, {
+    extensions: [gfm(), math()],
+    mdastExtensions: [gfmFromMarkdown(), mathFromMarkdown()],
+  });
+}
+
+// Link reference definitions by normalized label, for [text][label] links
+export function collectDefinitions(root: Root): Map<string, Definition> {
+  const definitions = new Map<string, Definition>();
+  const visit = (node: Nodes) => {
+    if (node.type === 'definition') {
+      definitions.set(node.identifier, node);
+    } else if ('children' in node) {
+      node.children.forEach(visit);
+    }
+  };
+  visit(root);
+  return definitions;
+}
+
+function plainText(node: Nodes): string {
+  if ('value' in node) return node.value;
+  return 'children' in node ? node.children.map(plainText).join('') : '';
+}
+
+// Whether a code block is labelled as the "before" or "after" version: in
+// its fence (```ts before) or in a short heading or paragraph right above it
+// ("Before:", "**After** the fix")
+function comparisonLabel(block: Code, previous: RootContent | undefined): 'before' | 'after' | null {
+  const labels = [block.meta ?? ''];
+  if (previous?.type === 'paragraph' || previous?.type === 'heading') labels.push(plainText(previous));
+  for (const label of labels) {
+    if (label.length > 80) continue;
+    if (/\bbefore\b/i.test(label)) return 'before';
+    if (/\bafter\b/i.test(label)) return 'after';
+  }
+  return null;
+}
+
+// The "after" block of each before/after pair, mapped to its "before" code.
+// A pair is two blocks in the same language, labelled, with no other code
+// block between them.
+export function collectComparisons(root: Root): Map<Code, string> {
+  const comparisons = new Map<Code, string>();
+  const visit = (node: Nodes) => {
+    if (!('children' in node)) return;
+    let before: Code | null = null;
+    node.children.forEach((child, index) => {
+      if (child.type !== 'code') return visit(child);
+      const label = comparisonLabel(child, node.children[index - 1] as RootContent | undefined);
+      if (label === 'after' && before && (before.lang ?? '') === (child.lang ?? '')) {
+        comparisons.set(child, before.value);
+      }
+      before = label === 'before' ? child : null;
+    });
+  };
+  visit(root);
+  return comparisons;
+}
+
+// Only plain web and mail links are followed; javascript:, data: and
+// relative URLs could do something other than open a page
+export function isSafeUrl(url: string): boolean {
+  return /^(https?:|mailto:)/i.test(url.trim());
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { parseMessage, splitReasoning, stripReasoning } from './messageParser';
+
+describe('splitReasoning', () => {
+  it('separates a leading think block from the answer', () => {
+    expect(splitReasoning('<think>\nweighing options\n</think>\n\nThe answer.')).toEqual({
+      reasoning: 'weighing options',
+      complete: true,
+      answer: 'The answer.',
+    });
+  });
+
+  it('reports an unfinished think block while streaming', () => {
+    expect(splitReasoning('<think>still going')).toEqual({ reasoning: 'still going', complete: false, answer: '' });
+  });
+
+  it('treats a partial opening tag as reasoning that has not started yet', () => {
+    expect(splitReasoning('<thi')).toEqual({ reasoning: '', complete: false, answer: '' });
+  });
+
+  it('handles a closing tag without an opening one', () => {
+    expect(splitReasoning('thinking\n</think>answer')).toEqual({ reasoning: 'thinking', complete: true, answer: 'answer' });
+  });
+
+  it('leaves a closing tag mentioned in the answer alone', () => {
+    const mention = 'Why does my parser break on </think>?';
+    expect(splitReasoning(mention)).toEqual({ reasoning: null, complete: true, answer: mention });
+    const code = 'Like this:\n```xml\n</think>\n```';
+    expect(splitReasoning(code)).toEqual({ reasoning: null, complete: true, answer: code });
+  });
+
+  it('leaves messages without reasoning alone', () => {
+    expect(splitReasoning('plain text')).toEqual({ reasoning: null, complete: true, answer: 'plain text' });
+    expect(stripReasoning('plain text')).toBe('plain text');
+  });
+});
+
+describe('parseMessage', () => {
+  it('parses the answer as Markdown', () => {
+    const [part] = parseMessage('Before\n```ts\nconst a = 1;\n```\nAfter');
+    expect(part.type).toBe('markdown');
+    expect(part.type === 'markdown' && part.root.children.map(node => node.type)).toEqual(['paragraph', 'code', 'paragraph']);
+  });
+
+  it('puts the reasoning part first', () => {
+    const parts = parseMessage('<think>hmm</think>Done');
+    expect(parts[0]).toEqual({ type: 'reasoning', content: 'hmm', complete: true });
+    expect(parts[1]).toMatchObject({ type: 'markdown', content: 'Done' });
+  });
+
+  it('has no answer part while still reasoning', () => {
+    expect(parseMessage('<think>hmm')).toEqual([{ type: 'reasoning', content: 'hmm', complete: false }]);
+  });
+});
@@ -1,46 +1,86 @@
-interface CodeBlock {
-  language: string;
-  code: string;
+import { parseMarkdown, type Code, type Nodes, type Root } from './markdown';
+
+export type MessagePart =
+  // complete is false while the closing </think> tag has not arrived yet
+  | { type: 'reasoning'; content: string; complete: boolean }
+  | { type: 'markdown'; content: string; root: Root };
+
+const THINK_OPEN = '<think>';
+const THINK_CLOSE = '</think>';
+
+// Splits a leading <think>...</think> block (DeepSeek R1 style chain of
+// thought) from a reply's answer. Some providers drop the opening tag, so a
+// closing tag with no opening one also ends a reasoning block, as long as
+// it starts a line and no code comes before it; a reply that only mentions
+// the tag is left alone. Only meant for assistant content.
+export function splitReasoning(message: string): { reasoning: string | null; complete: boolean; answer: string } {
+  const trimmed = message.trimStart();
+
+  if (trimmed.startsWith(THINK_OPEN)) {
+    const close = trimmed.indexOf(THINK_CLOSE);
+    if (close === -1) {
+      return { reasoning: trimmed.slice(THINK_OPEN.length).trim(), complete: false, answer: '' };
+    }
+    return {
+      reasoning: trimmed.slice(THINK_OPEN.length, close).trim(),
+      complete: true,
+      answer: trimmed.slice(close + THINK_CLOSE.length).trimStart(),
+    };
+  }
+
+  // The opening tag may still be arriving mid-stream
+  if (trimmed.length > 0 && THINK_OPEN.startsWith(trimmed)) {
+    return { reasoning: '', complete: false, answer: '' };
+  }
+
+  const close = message.indexOf(THINK_CLOSE);
+  const before = message.slice(0, close);
+  if (close !== -1 && /(^|\n)[ \t]*$/.test(before) && !before.includes(THINK_OPEN) && !before.includes('```')) {
+    return {
+      reasoning: before.trim(),
+      complete: true,
+      answer: message.slice(close + THINK_CLOSE.length).trimStart(),
+    };
+  }
+
+  return { reasoning: null, complete: true, answer: message };
 }
 
-interface MessagePart {
-  type: 'text' | 'code';
-  content: string;
-  language?: string;
+// The reply without its reasoning block
+export function stripReasoning(message: string): string {
+  return splitReasoning(message).answer;
 }
 
+// The reply's reasoning block, if any, followed by the answer as a Markdown tree
 export function parseMessage(message: string): MessagePart[] {
   const parts: MessagePart[] = [];
-  const codeBlockRegex = /```(\w+)?\n([\s\S]*?)```/g;
-  let lastIndex = 0;
-  let match;
-
-  while ((match = codeBlockRegex.exec(message)) !== null) {
-    // Add text before code block
-    if (match.index > lastIndex) {
-      parts.push({
-        type: 'text',
-        content: message.slice(lastIndex, match.index),
-      });
-    }
-
-    // Add code block
-    parts.push({
-      type: 'code',
-      content: match[2].trim(),
-      language: match[1] || 'plaintext',
-    });
+  const { reasoning, complete, answer } = splitReasoning(message);
 
-    lastIndex = match.index + match[0].length;
+  if (reasoning !== null) {
+    parts.push({ type: 'reasoning', content: reasoning, complete });
   }
-
-  // Add remaining text
-  if (lastIndex < message.length) {
-    parts.push({
-      type: 'text',
-      content: message.slice(lastIndex),
-    });
+  if (answer) {
+    parts.push({ type: 'markdown', content: answer, root: parseMarkdown(answer) });
   }
 
   return parts;
-}
\ No newline at end of file
+}
+
+function codeBlocks(node: Nodes): Code[] {
+  if (node.type === 'code') return [node];
+  return 'children' in node ? node.children.flatMap(codeBlocks) : [];
+}
+
+// Saved messages don't change, so each is parsed once however often its
+// code blocks are asked for
+const parsedMessages = new WeakMap<{ content: string }, Code[]>();
+
+// The fenced code blocks in a message's answer, in order
+export function messageCodeBlocks(message: { content: string }): Code[] {
+  let blocks = parsedMessages.get(message);
+  if (!blocks) {
+    blocks = codeBlocks(parseMarkdown(stripReasoning(message.content)));
+    parsedMessages.set(message, blocks);
+  }
+  return blocks;
+}
@@ -0,0 +1,61 @@
+export interface TreeNode {
+  id: string;
+  parent_id: string | null;
+  sibling_index: number;
+}
+
+// Groups messages by parent id, each group ordered by sibling_index.
+// Root messages are stored under the `null` key.
+export function groupChildren<T extends TreeNode>(messages: T[]): Map<string | null, T[]> {
+  const children = new Map<string | null, T[]>();
+  for (const message of messages) {
+    const siblings = children.get(message.parent_id) ?? [];
+    siblings.push(message);
+    children.set(message.parent_id, siblings);
+  }
+  for (const siblings of children.values()) {
+    siblings.sort((a, b) => a.sibling_index - b.sibling_index);
+  }
+  return children;
+}
+
+// Sibling index for a new message added under `parentId`
+export function nextSiblingIndex(messages: TreeNode[], parentId: string | null): number {
+  return messages.reduce((max, m) => m.parent_id === parentId ? Math.max(max, m.sibling_index + 1) : max, 0);
+}
+
+// Follows the newest branch from `startId` down to a leaf
+export function findLatestLeaf<T extends TreeNode>(messages: T[], startId: string): T | undefined {
+  const children = groupChildren(messages);
+  let node = messages.find(m => m.id === startId);
+  while (node) {
+    const next: T[] | undefined = children.get(node.id);
+    if (!next?.length) break;
+    node = next[next.length - 1];
+  }
+  return node;
+}
+
+// The root-to-leaf path ending at `leafId`. If the leaf is unknown, the
+// newest branch is followed instead; if it has children, the path is
+// extended along the newest of them.
+export function getActivePath<T extends TreeNode>(messages: T[], leafId: string | null): T[] {
+  const byId = new Map(messages.map(m => [m.id, m]));
+  let start = leafId ? byId.get(leafId) : undefined;
+
+  if (!start) {
+    const roots = groupChildren(messages).get(null);
+    // Until the oldest page is loaded there may be no root; the newest
+    // message is on the newest branch too
+    start = roots?.[roots.length - 1] ?? messages[messages.length - 1];
+  }
+  if (!start) return [];
+
+  const path: T[] = [];
+  let node = findLatestLeaf(messages, start.id);
+  while (node) {
+    path.unshift(node);
+    node = node.parent_id ? byId.get(node.parent_id) : undefined;
+  }
+  return path;
+}
@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_LOCAL_AI_BASE_URL?: string;
+  readonly VITE_LOCAL_AI_MODELS?: string;
+  readonly VITE_LOCAL_AI_API_KEY?: string;
+  readonly VITE_LOCAL_AI_CONTEXT_WINDOW?: string;
+  readonly VITE_LOCAL_AI_VISION_MODELS?: string;
+  readonly VITE_LOCAL_AI_TOOL_MODELS?: string;
+}
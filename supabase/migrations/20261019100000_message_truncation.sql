@@ -0,0 +1,9 @@
+/*
+  # Track stopped responses
+
+  1. Changes
+    - Add `truncated` to `messages`: true when the user stopped generation
+      and only the partial reply was saved
+*/
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS truncated boolean NOT NULL DEFAULT false;
@@ -0,0 +1,18 @@
+/*
+  # Per-conversation generation settings
+
+  1. Changes
+    - Add to `conversations`:
+      - `system_prompt` (text) sent before the history on every request
+      - `temperature`, `top_p` (real), `max_tokens` (integer) and
+        `stop_sequences` (text[]); NULL means the provider default
+      - `model_provider`, `model_id` (text) for the model the conversation uses
+*/
+
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS system_prompt text NOT NULL DEFAULT '';
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS temperature real CHECK (temperature >= 0 AND temperature <= 2);
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS top_p real CHECK (top_p > 0 AND top_p <= 1);
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS max_tokens integer CHECK (max_tokens > 0);
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS stop_sequences text[] NOT NULL DEFAULT '{}';
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS model_provider text;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS model_id text;
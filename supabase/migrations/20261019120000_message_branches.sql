@@ -0,0 +1,61 @@
+/*
+  # Branching conversations
+
+  1. Changes
+    - Add `parent_id` and `sibling_index` to `messages` so messages form a
+      tree: regenerating a reply or editing a prompt adds a sibling branch
+    - Add `active_leaf_id` to `conversations`, the last message of the
+      branch currently shown
+    - Link existing messages into a single chain by creation time
+
+  2. Security
+    - Add UPDATE and DELETE policies for messages in the user's conversations
+*/
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS parent_id uuid REFERENCES messages ON DELETE CASCADE;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS sibling_index integer NOT NULL DEFAULT 0;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS active_leaf_id uuid REFERENCES messages ON DELETE SET NULL;
+
+-- Existing conversations are linear: each message answers the one before it
+UPDATE messages
+SET parent_id = ordered.previous_id
+FROM (
+  SELECT id, LAG(id) OVER (PARTITION BY conversation_id ORDER BY created_at) AS previous_id
+  FROM messages
+) AS ordered
+WHERE messages.id = ordered.id
+AND messages.parent_id IS NULL
+AND ordered.previous_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS messages_parent_id_idx ON messages(parent_id);
+
+CREATE POLICY "Users can update messages in their conversations"
+  ON messages
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM conversations
+      WHERE conversations.id = messages.conversation_id
+      AND conversations.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM conversations
+      WHERE conversations.id = messages.conversation_id
+      AND conversations.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete messages in their conversations"
+  ON messages
+  FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM conversations
+      WHERE conversations.id = messages.conversation_id
+      AND conversations.user_id = auth.uid()
+    )
+  );
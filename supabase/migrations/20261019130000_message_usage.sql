@@ -0,0 +1,53 @@
+/*
+  # Token usage and cost per message
+
+  1. Changes
+    - Add to `messages` (assistant replies only, NULL for user messages):
+      - `model_provider`, `model_id` (text) of the model that replied
+      - `prompt_tokens`, `completion_tokens` (integer) as reported by the provider
+      - `latency_ms` (integer) from request to last token
+      - `cost_usd` (numeric) estimated from the price table when the reply was saved
+    - Add `get_usage_summary` returning totals per day and model for the
+      calling user; it runs with the caller's rights so RLS still applies
+*/
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS model_provider text;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS model_id text;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS prompt_tokens integer;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS completion_tokens integer;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS latency_ms integer;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS cost_usd numeric(12, 6);
+
+CREATE OR REPLACE FUNCTION get_usage_summary(since timestamptz)
+RETURNS TABLE (
+  day date,
+  model_provider text,
+  model_id text,
+  message_count bigint,
+  prompt_tokens bigint,
+  completion_tokens bigint,
+  cost_usd numeric,
+  avg_latency_ms numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    (messages.created_at AT TIME ZONE 'UTC')::date AS day,
+    messages.model_provider,
+    messages.model_id,
+    COUNT(*) AS message_count,
+    COALESCE(SUM(messages.prompt_tokens), 0) AS prompt_tokens,
+    COALESCE(SUM(messages.completion_tokens), 0) AS completion_tokens,
+    COALESCE(SUM(messages.cost_usd), 0) AS cost_usd,
+    ROUND(AVG(messages.latency_ms)) AS avg_latency_ms
+  FROM messages
+  JOIN conversations ON conversations.id = messages.conversation_id
+  WHERE conversations.user_id = auth.uid()
+  AND messages.role = 'assistant'
+  AND messages.model_id IS NOT NULL
+  AND messages.created_at >= since
+  GROUP BY 1, 2, 3
+  ORDER BY 1 DESC, 2, 3;
+$$;
@@ -0,0 +1,9 @@
+/*
+  # Reasoning duration
+
+  1. Changes
+    - Add `reasoning_ms` to `messages`: how long the model spent in its
+      <think> block before answering, NULL when unknown
+*/
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS reasoning_ms integer;
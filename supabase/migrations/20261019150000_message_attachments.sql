@@ -0,0 +1,38 @@
+/*
+  # Message attachments
+
+  1. Changes
+    - Add `attachments` to `messages`: JSON list of files sent with the
+      message, e.g. `{ "type": "image", "path": "...", "mime_type": "image/png",
+      "ocr_text": "..." }`
+
+  2. Storage
+    - Private `message-images` bucket; objects live under `<user id>/`
+
+  3. Security
+    - Users can upload and read only the objects in their own folder
+*/
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS attachments jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('message-images', 'message-images', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload their own message images"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'message-images'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+CREATE POLICY "Users can read their own message images"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'message-images'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
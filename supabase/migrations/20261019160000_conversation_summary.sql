@@ -0,0 +1,12 @@
+/*
+  # Rolling conversation summary
+
+  1. Changes
+    - Add to `conversations`:
+      - `summary` (text): summary of the older turns, sent instead of them
+      - `summary_message_id` (uuid): the last message the summary covers;
+        only the branch through this message uses the summary
+*/
+
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS summary text NOT NULL DEFAULT '';
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS summary_message_id uuid REFERENCES messages(id) ON DELETE SET NULL;
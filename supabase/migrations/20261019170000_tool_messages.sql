@@ -0,0 +1,18 @@
+/*
+  # Tool calls
+
+  1. Changes
+    - Allow `tool` as a message role, for the results of tool calls
+    - Add to `messages`:
+      - `tool_calls` (jsonb): on assistant messages, the tools the model
+        called, as `[{ "id", "name", "arguments" }]`
+      - `tool_call_id` (text), `tool_name` (text): on tool messages, the call
+        they answer
+*/
+
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS messages_role_check;
+ALTER TABLE messages ADD CONSTRAINT messages_role_check CHECK (role IN ('user', 'assistant', 'tool'));
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS tool_calls jsonb;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS tool_call_id text;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS tool_name text;
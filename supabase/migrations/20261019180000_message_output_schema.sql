@@ -0,0 +1,10 @@
+/*
+  # Structured output
+
+  1. Changes
+    - Add `output_schema` (jsonb) to `messages`: the JSON Schema an assistant
+      reply was requested with and validated against. The reply content is
+      then the JSON value itself.
+*/
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS output_schema jsonb;
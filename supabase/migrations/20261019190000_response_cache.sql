@@ -0,0 +1,61 @@
+/*
+  # Response cache
+
+  1. New Tables
+    - `response_cache`
+      - `created_by` (uuid, defaults to `auth.uid()`): the user the entry
+        belongs to
+      - `key` (text): SHA-256 of the provider, model, parameters and
+        normalised message history of a request; (`created_by`, `key`) is
+        the primary key, so each user has their own entry for a request
+      - `content` (text): the reply
+      - `model_provider`, `model_id` (text): the model that answered
+      - `usage` (jsonb): token counts reported for the original request
+      - `tool_calls` (jsonb): tools the model asked to run, if any
+      - `created_at` (timestamp): clients ignore entries older than their TTL
+
+  2. Changes
+    - Add `cached` (boolean) to `messages`: the reply was taken from the
+      cache instead of being generated
+
+  3. Security
+    - Enable RLS on `response_cache`
+    - Users can only read, add and refresh their own entries, so the cache
+      follows a user across devices but nobody can read another user's
+      prompts or plant a reply that is served to someone else
+*/
+
+CREATE TABLE IF NOT EXISTS response_cache (
+  created_by uuid REFERENCES auth.users NOT NULL DEFAULT auth.uid(),
+  key text NOT NULL,
+  content text NOT NULL,
+  model_provider text NOT NULL,
+  model_id text NOT NULL,
+  usage jsonb,
+  tool_calls jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (created_by, key)
+);
+
+ALTER TABLE response_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own cached responses"
+  ON response_cache
+  FOR SELECT
+  TO authenticated
+  USING (created_by = auth.uid());
+
+CREATE POLICY "Users can add their own cached responses"
+  ON response_cache
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Users can refresh their own cached responses"
+  ON response_cache
+  FOR UPDATE
+  TO authenticated
+  USING (created_by = auth.uid())
+  WITH CHECK (created_by = auth.uid());
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS cached boolean NOT NULL DEFAULT false;
@@ -0,0 +1,148 @@
+/*
+  # Full-text search over conversations and messages
+
+  1. Changes
+    - Add `search_vector` (tsvector, generated from `content`) to `messages`
+      and (generated from `title`) to `conversations`, each with a GIN index
+    - Keep `conversations.updated_at` at the time of the latest message, with
+      a trigger on `messages`; until now nothing updated it, so existing
+      conversations are brought up to date
+    - Add `search_conversations` returning the calling user's best matches
+      for a web-style query ("quoted phrases", -excluded words, or):
+      - title matches, with no `message_id`, and message matches
+      - an optional date range, message role and model to narrow them by;
+        title matches are left out when a role is given
+      - the date range applies to when a message was sent, and to when a
+        conversation was last updated for title matches; `created_at` in
+        the results is that same timestamp
+      - a `snippet` of the matching text with matched words between
+        chr(2) and chr(3), which the client turns into highlights
+      - it runs with the caller's rights so RLS still applies
+*/
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (to_tsvector('english', coalesce(content, ''))) STORED;
+
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (to_tsvector('english', coalesce(title, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS messages_search_vector_idx ON messages USING gin (search_vector);
+CREATE INDEX IF NOT EXISTS conversations_search_vector_idx ON conversations USING gin (search_vector);
+
+CREATE OR REPLACE FUNCTION touch_conversation()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE conversations
+  SET updated_at = GREATEST(updated_at, NEW.created_at)
+  WHERE id = NEW.conversation_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS messages_touch_conversation ON messages;
+CREATE TRIGGER messages_touch_conversation
+  AFTER INSERT ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_conversation();
+
+UPDATE conversations
+SET updated_at = latest.created_at
+FROM (
+  SELECT conversation_id, MAX(created_at) AS created_at
+  FROM messages
+  GROUP BY conversation_id
+) AS latest
+WHERE latest.conversation_id = conversations.id
+AND latest.created_at > COALESCE(conversations.updated_at, '-infinity');
+
+CREATE OR REPLACE FUNCTION search_conversations(
+  search_query text,
+  date_from timestamptz DEFAULT NULL,
+  date_to timestamptz DEFAULT NULL,
+  message_role text DEFAULT NULL,
+  message_model text DEFAULT NULL,
+  max_results integer DEFAULT 50
+)
+RETURNS TABLE (
+  conversation_id uuid,
+  conversation_title text,
+  message_id uuid,
+  role text,
+  model_id text,
+  created_at timestamptz,
+  snippet text,
+  rank real
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', search_query) AS q
+  ),
+  matches AS (
+    SELECT
+      conversations.id AS conversation_id,
+      conversations.title AS conversation_title,
+      NULL::uuid AS message_id,
+      NULL::text AS role,
+      conversations.model_id,
+      conversations.updated_at AS created_at,
+      conversations.title AS body,
+      -- A matching title says more about a conversation than one message does
+      ts_rank(conversations.search_vector, query.q) * 2 AS rank
+    FROM conversations, query
+    WHERE conversations.user_id = auth.uid()
+    AND conversations.search_vector @@ query.q
+    AND message_role IS NULL
+    AND (date_from IS NULL OR conversations.updated_at >= date_from)
+    AND (date_to IS NULL OR conversations.updated_at < date_to)
+    AND (message_model IS NULL OR conversations.model_id = message_model)
+
+    UNION ALL
+
+    SELECT
+      conversations.id,
+      conversations.title,
+      messages.id,
+      messages.role,
+      -- User messages were sent to the conversation's model
+      COALESCE(messages.model_id, conversations.model_id),
+      messages.created_at,
+      messages.content,
+      ts_rank(messages.search_vector, query.q)
+    FROM messages
+    JOIN conversations ON conversations.id = messages.conversation_id,
+    query
+    WHERE conversations.user_id = auth.uid()
+    AND messages.search_vector @@ query.q
+    AND (message_role IS NULL OR messages.role = message_role)
+    AND (date_from IS NULL OR messages.created_at >= date_from)
+    AND (date_to IS NULL OR messages.created_at < date_to)
+    AND (message_model IS NULL OR COALESCE(messages.model_id, conversations.model_id) = message_model)
+  ),
+  best AS (
+    SELECT * FROM matches
+    ORDER BY rank DESC, created_at DESC
+    LIMIT max_results
+  )
+  -- Snippets only for the rows returned, as ts_headline reparses the text
+  SELECT
+    best.conversation_id,
+    best.conversation_title,
+    best.message_id,
+    best.role,
+    best.model_id,
+    best.created_at,
+    ts_headline(
+      'english',
+      best.body,
+      query.q,
+      'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', MaxWords=24, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "'
+    ) AS snippet,
+    best.rank
+  FROM best, query
+  ORDER BY best.rank DESC, best.created_at DESC;
+$$;
@@ -0,0 +1,38 @@
+/*
+  # Fetch one branch of a conversation
+
+  1. Changes
+    - Add `get_branch_messages` returning the messages from the root (or
+      from `stop_at_id`, included, when it is an ancestor) down to
+      `leaf_id`, oldest first. The client uses it to fetch the part of the
+      active branch it hasn't loaded yet, instead of every earlier message;
+      it runs with the caller's rights so RLS still applies
+    - Add an index on `messages (conversation_id, created_at, id)` for the
+      client's keyset paging through a conversation
+*/
+
+CREATE OR REPLACE FUNCTION get_branch_messages(leaf_id uuid, stop_at_id uuid DEFAULT NULL)
+RETURNS SETOF messages
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  WITH RECURSIVE branch (id, parent_id, depth) AS (
+    SELECT messages.id, messages.parent_id, 0
+    FROM messages
+    WHERE messages.id = leaf_id
+
+    UNION ALL
+
+    SELECT messages.id, messages.parent_id, branch.depth + 1
+    FROM branch
+    JOIN messages ON messages.id = branch.parent_id
+    WHERE branch.id IS DISTINCT FROM stop_at_id
+  )
+  SELECT messages.*
+  FROM messages
+  JOIN branch ON branch.id = messages.id
+  ORDER BY branch.depth DESC;
+$$;
+
+CREATE INDEX IF NOT EXISTS messages_conversation_page_idx ON messages (conversation_id, created_at, id);
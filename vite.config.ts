@@ -1,10 +1,28 @@
+/// <reference types="vitest/config" />
+import { createRequire } from 'node:module';
+import { dirname } from 'node:path';
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const require = createRequire(import.meta.url);
+const packageDir = (name: string) => dirname(require.resolve(`${name}/package.json`));
+
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
+  resolve: {
+    // React's UMD builds, inlined into component previews, aren't in the
+    // packages' exports; these make `react/umd/...` imports resolve
+    alias: [
+      { find: /^react\/umd\//, replacement: `${packageDir('react')}/umd/` },
+      { find: /^react-dom\/umd\//, replacement: `${packageDir('react-dom')}/umd/` },
+    ],
+  },
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  test: {
+    environment: 'jsdom',
+    setupFiles: ['./src/test/setup.ts'],
+  },
 });